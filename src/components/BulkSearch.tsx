@@ -0,0 +1,327 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { parseCsv } from "@/lib/csv";
+import { errorMessage } from "@/lib/errors";
+import { Upload, Play, Square, Mail, Loader2 } from "lucide-react";
+
+interface CompanyCandidate {
+  name: string;
+  domain: string;
+}
+
+type RowStatus = 'queued' | 'searching' | 'done' | 'ambiguous' | 'error';
+
+interface BulkRow {
+  id: number;
+  input: string;
+  name?: string;
+  status: RowStatus;
+  candidates?: CompanyCandidate[];
+  error?: string;
+  result?: {
+    companyId: string;
+    companyName: string;
+    domain: string;
+    contacts: number;
+    relevant: number;
+    valid: number;
+  };
+}
+
+interface BulkSearchProps {
+  onCreateCampaigns: (companyIds: string[]) => void;
+}
+
+// Searches run a couple at a time so a 200-company list doesn't flood the providers
+const CONCURRENCY = 2;
+
+const HEADER_NAMES = ['company', 'company name', 'name', 'organization'];
+const HEADER_DOMAINS = ['domain', 'website', 'url', 'company domain'];
+
+const looksLikeDomain = (value: string) => /^[^\s]+\.[a-z]{2,}(\/.*)?$/i.test(value.replace(/^https?:\/\//i, ''));
+
+// Accepts a CSV with company/domain columns, or one company name or domain per line
+const parseBulkInput = (text: string): Omit<BulkRow, 'id' | 'status'>[] => {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((cell) => cell.toLowerCase());
+  const nameColumn = header.findIndex((cell) => HEADER_NAMES.includes(cell));
+  const domainColumn = header.findIndex((cell) => HEADER_DOMAINS.includes(cell));
+  const hasHeader = nameColumn >= 0 || domainColumn >= 0;
+
+  const seen = new Set<string>();
+  return (hasHeader ? rows.slice(1) : rows)
+    .map((cells) => {
+      if (hasHeader) {
+        const name = nameColumn >= 0 ? cells[nameColumn] : undefined;
+        const domain = domainColumn >= 0 ? cells[domainColumn] : undefined;
+        return { input: domain || name || '', name: domain ? name : undefined };
+      }
+      const [first, second] = cells;
+      if (second && looksLikeDomain(second) && !looksLikeDomain(first)) {
+        return { input: second, name: first };
+      }
+      return { input: first };
+    })
+    .filter((row) => {
+      const key = row.input.toLowerCase();
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+const BulkSearch = ({ onCreateCampaigns }: BulkSearchProps) => {
+  const [inputText, setInputText] = useState("");
+  const [rows, setRows] = useState<BulkRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const stopRequested = useRef(false);
+  const { toast } = useToast();
+
+  const updateRow = (id: number, changes: Partial<BulkRow>) => {
+    setRows((current) => current.map((row) => (row.id === id ? { ...row, ...changes } : row)));
+  };
+
+  const handleFile = async (file: File) => {
+    setInputText(await file.text());
+  };
+
+  const loadRows = () => {
+    const parsed = parseBulkInput(inputText);
+    if (parsed.length === 0) {
+      toast({
+        title: "Error",
+        description: "No companies found in the list",
+        variant: "destructive",
+      });
+      return [];
+    }
+    const queued = parsed.map((row, index) => ({ ...row, id: index, status: 'queued' as RowStatus }));
+    setRows(queued);
+    return queued;
+  };
+
+  const searchRow = async (row: BulkRow, picked?: CompanyCandidate) => {
+    updateRow(row.id, { status: 'searching', error: undefined });
+    try {
+      const { data, error } = await supabase.functions.invoke('search-recruiters', {
+        body: {
+          companyInput: picked ? picked.domain : row.input,
+          companyName: picked ? picked.name : row.name,
+        },
+      });
+
+      if (error) throw error;
+
+      if (data.needsSelection) {
+        updateRow(row.id, { status: 'ambiguous', candidates: data.candidates });
+        return;
+      }
+
+      const recruiters: { relevance_category: string | null; email_status: string }[] = data.recruiters;
+      const relevant = recruiters.filter((recruiter) => recruiter.relevance_category !== 'other');
+      updateRow(row.id, {
+        status: 'done',
+        candidates: undefined,
+        result: {
+          companyId: data.company.id,
+          companyName: data.company.name,
+          domain: data.company.domain,
+          contacts: recruiters.length,
+          relevant: relevant.length,
+          valid: relevant.filter((recruiter) => recruiter.email_status === 'valid').length,
+        },
+      });
+    } catch (error: unknown) {
+      updateRow(row.id, {
+        status: 'error',
+        error: errorMessage(error, "Search failed"),
+      });
+    }
+  };
+
+  const runQueue = async (queue: BulkRow[]) => {
+    stopRequested.current = false;
+    setRunning(true);
+    let next = 0;
+    const worker = async () => {
+      while (!stopRequested.current && next < queue.length) {
+        const row = queue[next++];
+        await searchRow(row);
+      }
+    };
+    await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+    setRunning(false);
+
+    toast({
+      title: stopRequested.current ? "Bulk Search Stopped" : "Bulk Search Complete",
+      description: `Processed ${Math.min(next, queue.length)} of ${queue.length} companies`,
+    });
+  };
+
+  const startBulkSearch = () => {
+    const queue = loadRows();
+    if (queue.length > 0) runQueue(queue);
+  };
+
+  const retryFailed = () => {
+    runQueue(rows.filter((row) => row.status === 'error' || row.status === 'queued'));
+  };
+
+  const getStatusColor = (status: RowStatus) => {
+    switch (status) {
+      case 'searching': return 'bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-950 dark:text-blue-300 dark:border-blue-800';
+      case 'done': return 'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-950 dark:text-emerald-300 dark:border-emerald-800';
+      case 'ambiguous': return 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-300 dark:border-amber-800';
+      case 'error': return 'bg-red-50 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-300 dark:border-red-800';
+      default: return 'bg-muted text-muted-foreground border-border';
+    }
+  };
+
+  const finished = rows.filter((row) => row.status === 'done' || row.status === 'error' || row.status === 'ambiguous').length;
+  const campaignReady = rows.filter((row) => row.status === 'done' && row.result && row.result.valid > 0);
+  const hasRetryable = rows.some((row) => row.status === 'error' || row.status === 'queued');
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="bulkInput">Companies *</Label>
+        <Textarea
+          id="bulkInput"
+          placeholder={"One company name or domain per line, or paste a CSV with company and domain columns\ne.g.\nStripe\ngs.com\nTesla, tesla.com"}
+          value={inputText}
+          onChange={(e) => setInputText(e.target.value)}
+          rows={8}
+          disabled={running}
+        />
+        <div className="flex items-center gap-2">
+          <Label
+            htmlFor="bulkFile"
+            className="inline-flex items-center gap-2 text-sm text-muted-foreground cursor-pointer hover:text-foreground"
+          >
+            <Upload className="h-4 w-4" />
+            Upload CSV
+          </Label>
+          <input
+            id="bulkFile"
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {running ? (
+          <Button variant="outline" onClick={() => (stopRequested.current = true)}>
+            <Square className="mr-2 h-4 w-4" />
+            Stop
+          </Button>
+        ) : (
+          <Button onClick={startBulkSearch} disabled={!inputText.trim()}>
+            <Play className="mr-2 h-4 w-4" />
+            Search All
+          </Button>
+        )}
+        {!running && hasRetryable && rows.length > 0 && (
+          <Button variant="outline" onClick={retryFailed}>
+            Retry Remaining
+          </Button>
+        )}
+        {!running && campaignReady.length > 0 && (
+          <Button
+            variant="outline"
+            onClick={() => onCreateCampaigns(campaignReady.map((row) => row.result!.companyId))}
+          >
+            <Mail className="mr-2 h-4 w-4" />
+            Create Campaigns ({campaignReady.length})
+          </Button>
+        )}
+      </div>
+
+      {rows.length > 0 && (
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span>Progress</span>
+              <span>
+                {finished} / {rows.length}
+              </span>
+            </div>
+            <Progress value={(finished / rows.length) * 100} />
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Input</TableHead>
+                <TableHead>Company</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Contacts</TableHead>
+                <TableHead className="text-right">Recruiters</TableHead>
+                <TableHead className="text-right">Valid</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.id}>
+                  <TableCell className="font-medium">{row.name || row.input}</TableCell>
+                  <TableCell>
+                    {row.status === 'ambiguous' && row.candidates ? (
+                      <Select
+                        onValueChange={(domain) => {
+                          const picked = row.candidates!.find((candidate) => candidate.domain === domain);
+                          if (picked) searchRow(row, picked);
+                        }}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue placeholder="Pick the company" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {row.candidates.map((candidate) => (
+                            <SelectItem key={candidate.domain} value={candidate.domain}>
+                              {candidate.name} ({candidate.domain})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : row.result ? (
+                      <span>
+                        {row.result.companyName}
+                        <span className="text-muted-foreground text-xs ml-1">{row.result.domain}</span>
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={getStatusColor(row.status)} title={row.error}>
+                      {row.status === 'searching' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                      {row.status}
+                    </Badge>
+                    {row.error && <p className="text-xs text-destructive mt-1">{row.error}</p>}
+                  </TableCell>
+                  <TableCell className="text-right">{row.result?.contacts ?? '—'}</TableCell>
+                  <TableCell className="text-right">{row.result?.relevant ?? '—'}</TableCell>
+                  <TableCell className="text-right">{row.result?.valid ?? '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkSearch;
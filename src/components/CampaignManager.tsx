@@ -7,9 +7,28 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import RecipientPicker from "@/components/RecipientPicker";
+import SequenceSteps from "@/components/SequenceSteps";
+import CampaignRecipients from "@/components/CampaignRecipients";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { Plus, Send, Eye, Trash2, Building2, Users, Loader2, Mail } from "lucide-react";
+import { formatInTimezone, isoToZonedTime, localTimezone, timezoneOptions, zonedTimeToIso } from "@/lib/schedule";
+import { toStepRows, type SequenceStepDraft } from "@/lib/sequence";
+import { errorMessage } from "@/lib/errors";
+import { Plus, Send, Eye, Trash2, Building2, Users, Loader2, Mail, CalendarClock, X, ListOrdered, Pause, Play, Ban } from "lucide-react";
 
 interface Company {
   id: string;
@@ -26,19 +45,72 @@ interface Campaign {
   emails_sent: number;
   emails_delivered: number;
   status: string;
+  scheduled_at: string | null;
+  scheduled_timezone: string | null;
   created_at: string;
   companies: Company;
+  campaign_recipients: { count: number }[];
+  campaign_steps: { count: number }[];
 }
 
-const CampaignManager = () => {
+// How often the list refreshes while a campaign's queue is being sent
+const SENDING_REFRESH_MS = 10_000;
+
+type SendingAction = 'pause' | 'resume' | 'cancel';
+
+// Status changes for a campaign that's being sent. process-email-queue checks
+// the status before every email it sends; cancelling also goes through the
+// cancel_campaign function to cancel what's still queued.
+const SENDING_ACTIONS: Record<SendingAction, { from: string[]; to: string; title: string; description: string }> = {
+  pause: {
+    from: ['sending'],
+    to: 'paused',
+    title: "Campaign Paused",
+    description: "No more emails go out until you resume it",
+  },
+  resume: {
+    from: ['paused'],
+    to: 'sending',
+    title: "Campaign Resumed",
+    description: "Sending continues with the emails that haven't gone out yet",
+  },
+  cancel: {
+    from: ['sending', 'paused'],
+    to: 'cancelled',
+    title: "Campaign Cancelled",
+    description: "Its unsent emails and follow-ups won't go out",
+  },
+};
+
+interface CampaignManagerProps {
+  // Companies handed over from bulk search; one campaign is created per company
+  prefillCompanyIds?: string[];
+  onPrefillConsumed?: () => void;
+}
+
+const CampaignManager = ({ prefillCompanyIds, onPrefillConsumed }: CampaignManagerProps) => {
   const [companies, setCompanies] = useState<Company[]>([]);
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [loading, setLoading] = useState(false);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [selectedCompany, setSelectedCompany] = useState("");
+  const [bulkCompanyIds, setBulkCompanyIds] = useState<string[]>([]);
   const [positionTitle, setPositionTitle] = useState("");
   const [emailSubject, setEmailSubject] = useState("");
   const [emailTemplate, setEmailTemplate] = useState("");
+  const [recipientIds, setRecipientIds] = useState<string[] | null>(null);
+  const [editingRecipientsFor, setEditingRecipientsFor] = useState<string | null>(null);
+  const [editRecipientIds, setEditRecipientIds] = useState<string[] | null>(null);
+  const [savingRecipients, setSavingRecipients] = useState(false);
+  const [sendLater, setSendLater] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState("");
+  const [scheduleTimezone, setScheduleTimezone] = useState(localTimezone);
+  const [schedulingFor, setSchedulingFor] = useState<string | null>(null);
+  const [followUps, setFollowUps] = useState<SequenceStepDraft[]>([]);
+  const [editingStepsFor, setEditingStepsFor] = useState<string | null>(null);
+  const [editSteps, setEditSteps] = useState<SequenceStepDraft[]>([]);
+  const [savingSteps, setSavingSteps] = useState(false);
+  const [detailsFor, setDetailsFor] = useState<string | null>(null);
   const { toast } = useToast();
 
   const defaultEmailTemplate = `Hi {recruiter_first_name},
@@ -60,6 +132,23 @@ Best regards,
     fetchCampaigns();
   }, []);
 
+  const hasSendingCampaign = campaigns.some((campaign) => campaign.status === 'sending');
+  useEffect(() => {
+    if (!hasSendingCampaign) return;
+    const timer = setInterval(fetchCampaigns, SENDING_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [hasSendingCampaign]);
+
+  useEffect(() => {
+    if (prefillCompanyIds && prefillCompanyIds.length > 0) {
+      setBulkCompanyIds(prefillCompanyIds);
+      setEmailTemplate((current) => current || defaultEmailTemplate);
+      setShowCreateForm(true);
+      onPrefillConsumed?.();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [prefillCompanyIds]);
+
   const fetchCompanies = async () => {
     try {
       const { data, error } = await supabase
@@ -84,6 +173,12 @@ Best regards,
             id,
             name,
             domain
+          ),
+          campaign_recipients (
+            count
+          ),
+          campaign_steps (
+            count
           )
         `)
         .order('created_at', { ascending: false });
@@ -95,8 +190,48 @@ Best regards,
     }
   };
 
+  const targetCompanyIds = bulkCompanyIds.length > 0 ? bulkCompanyIds : [selectedCompany].filter(Boolean);
+
+  const selectCompany = (companyId: string) => {
+    setSelectedCompany(companyId);
+    setRecipientIds(null);
+  };
+
+  // Adds campaign_recipients rows, each recruiter going to the campaign for its company
+  const addRecipients = async (campaignsByCompany: Map<string, string>, recruiterIds: string[]) => {
+    const { data: recruiters, error } = await supabase
+      .from('recruiters')
+      .select('id, company_id')
+      .in('id', recruiterIds);
+
+    if (error) throw error;
+    const rows = (recruiters || [])
+      .filter((recruiter) => campaignsByCompany.has(recruiter.company_id))
+      .map((recruiter) => ({ campaign_id: campaignsByCompany.get(recruiter.company_id)!, recruiter_id: recruiter.id }));
+    if (rows.length === 0) return;
+
+    const { error: insertError } = await supabase
+      .from('campaign_recipients')
+      .upsert(rows, { onConflict: 'campaign_id,recruiter_id', ignoreDuplicates: true });
+    if (insertError) throw insertError;
+  };
+
+  // The picked time as an ISO instant, or null (after telling the user) when it isn't in the future
+  const checkScheduleTime = () => {
+    const scheduledAt = scheduleAt ? zonedTimeToIso(scheduleAt, scheduleTimezone) : null;
+    if (!scheduledAt || new Date(scheduledAt).getTime() <= Date.now()) {
+      toast({
+        title: "Error",
+        description: "Pick a send time in the future",
+        variant: "destructive",
+      });
+      return null;
+    }
+    return scheduledAt;
+  };
+
   const createCampaign = async () => {
-    if (!selectedCompany || !positionTitle || !emailSubject || !emailTemplate) {
+    if (targetCompanyIds.length === 0 || !positionTitle || !emailSubject || !emailTemplate) {
       toast({
         title: "Error",
         description: "Please fill in all required fields",
@@ -104,36 +239,54 @@ Best regards,
       });
       return;
     }
+    if (!recipientIds || recipientIds.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select at least one recipient",
+        variant: "destructive",
+      });
+      return;
+    }
+    const scheduledAt = sendLater ? checkScheduleTime() : null;
+    if (sendLater && !scheduledAt) return;
 
     setLoading(true);
     try {
       const { data, error } = await supabase
         .from('email_campaigns')
-        .insert({
-          company_id: selectedCompany,
+        .insert(targetCompanyIds.map((companyId) => ({
+          company_id: companyId,
           position_title: positionTitle,
           email_subject: emailSubject,
           email_template: emailTemplate,
-        })
-        .select(`
-          *,
-          companies (
-            id,
-            name,
-            domain
-          )
-        `)
-        .single();
+          ...(scheduledAt && {
+            status: 'scheduled',
+            scheduled_at: scheduledAt,
+            scheduled_timezone: scheduleTimezone,
+          }),
+        })))
+        .select('id, company_id');
 
       if (error) throw error;
 
-      setCampaigns([data, ...campaigns]);
+      await addRecipients(new Map(data.map((campaign) => [campaign.company_id, campaign.id])), recipientIds);
+      if (followUps.length > 0) {
+        const { error: stepsError } = await supabase
+          .from('campaign_steps')
+          .insert(data.flatMap((campaign) => toStepRows(campaign.id, followUps)));
+        if (stepsError) throw stepsError;
+      }
+
+      // Refetch so the cards show their recipient counts
+      fetchCampaigns();
       setShowCreateForm(false);
       resetForm();
       
       toast({
-        title: "Campaign Created",
-        description: "Your email campaign has been created successfully",
+        title: data.length > 1 ? "Campaigns Created" : "Campaign Created",
+        description: data.length > 1
+          ? `${data.length} email campaigns have been created successfully`
+          : "Your email campaign has been created successfully",
       });
     } catch (error: any) {
       console.error('Error creating campaign:', error);
@@ -161,8 +314,10 @@ Best regards,
       if (error) throw error;
 
       toast({
-        title: "Campaign Sent",
-        description: `Campaign sent successfully! ${data.emailsSent} emails delivered.`,
+        title: "Campaign Queued",
+        description: data.transport === 'capture'
+          ? `${data.queued} emails queued; they'll be captured locally (mail transport is in capture mode, nothing is delivered).`
+          : `${data.queued} emails queued. They go out gradually to stay within the sending limits.`,
       });
 
       // Refresh campaigns to update status
@@ -179,6 +334,40 @@ Best regards,
     }
   };
 
+  const changeSendingState = async (campaignId: string, action: SendingAction) => {
+    const { from, to, title, description } = SENDING_ACTIONS[action];
+    try {
+      let changed: boolean;
+      if (action === 'cancel') {
+        // The campaign, its unsent emails and its waiting recipients change together
+        const { data, error } = await supabase.rpc('cancel_campaign', { p_campaign_id: campaignId });
+        if (error) throw error;
+        changed = data;
+      } else {
+        const { data, error } = await supabase
+          .from('email_campaigns')
+          .update({ status: to })
+          .eq('id', campaignId)
+          .in('status', from)
+          .select('id');
+        if (error) throw error;
+        changed = data.length > 0;
+      }
+
+      if (!changed) throw new Error(`This campaign is no longer ${from.join(' or ')}`);
+
+      fetchCampaigns();
+      toast({ title, description });
+    } catch (error: unknown) {
+      console.error(`Error trying to ${action} campaign:`, error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, `Failed to ${action} campaign`),
+        variant: "destructive",
+      });
+    }
+  };
+
   const deleteCampaign = async (campaignId: string) => {
     try {
       const { error } = await supabase
@@ -203,23 +392,255 @@ Best regards,
     }
   };
 
+  const startScheduling = (campaign: Campaign) => {
+    const timeZone = campaign.scheduled_timezone || localTimezone();
+    setScheduleTimezone(timeZone);
+    setScheduleAt(campaign.scheduled_at ? isoToZonedTime(campaign.scheduled_at, timeZone) : "");
+    setSchedulingFor(campaign.id);
+  };
+
+  const saveSchedule = async (campaignId: string) => {
+    const scheduledAt = checkScheduleTime();
+    if (!scheduledAt) return;
+
+    try {
+      // Only drafts and campaigns that haven't started yet can be (re)scheduled
+      const { data, error } = await supabase
+        .from('email_campaigns')
+        .update({ status: 'scheduled', scheduled_at: scheduledAt, scheduled_timezone: scheduleTimezone })
+        .eq('id', campaignId)
+        .in('status', ['draft', 'scheduled'])
+        .select('id');
+
+      if (error) throw error;
+      if (data.length === 0) throw new Error("This campaign has already started sending");
+
+      setSchedulingFor(null);
+      fetchCampaigns();
+      toast({
+        title: "Campaign Scheduled",
+        description: `It will be sent ${formatInTimezone(scheduledAt, scheduleTimezone)}`,
+      });
+    } catch (error: unknown) {
+      console.error('Error scheduling campaign:', error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to schedule campaign"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const unscheduleCampaign = async (campaignId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('email_campaigns')
+        .update({ status: 'draft', scheduled_at: null, scheduled_timezone: null })
+        .eq('id', campaignId)
+        .eq('status', 'scheduled')
+        .select('id');
+
+      if (error) throw error;
+      if (data.length === 0) throw new Error("This campaign has already started sending");
+
+      fetchCampaigns();
+      toast({
+        title: "Schedule Cancelled",
+        description: "The campaign is back to draft and won't be sent automatically",
+      });
+    } catch (error: unknown) {
+      console.error('Error cancelling schedule:', error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to cancel schedule"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const editFollowUps = async (campaignId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('campaign_steps')
+        .select('email_subject, email_template, delay_days, business_days')
+        .eq('campaign_id', campaignId)
+        .order('step_number');
+
+      if (error) throw error;
+      setEditSteps((data || []).map((step) => ({ ...step, email_subject: step.email_subject ?? "" })));
+      setEditingStepsFor(campaignId);
+    } catch (error: unknown) {
+      console.error('Error loading follow-ups:', error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to load follow-ups"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Steps are renumbered on save, so the old ones are replaced wholesale
+  const saveFollowUps = async (campaignId: string) => {
+    setSavingSteps(true);
+    try {
+      // Overwrite the steps in place before dropping the extra ones, so a failed
+      // save never leaves the campaign without the follow-ups it had
+      if (editSteps.length > 0) {
+        const { error: upsertError } = await supabase
+          .from('campaign_steps')
+          .upsert(toStepRows(campaignId, editSteps), { onConflict: 'campaign_id,step_number' });
+        if (upsertError) throw upsertError;
+      }
+      const { error } = await supabase
+        .from('campaign_steps')
+        .delete()
+        .eq('campaign_id', campaignId)
+        .gt('step_number', editSteps.length + 1);
+
+      if (error) throw error;
+
+      setCampaigns(campaigns.map((campaign) =>
+        campaign.id === campaignId ? { ...campaign, campaign_steps: [{ count: editSteps.length }] } : campaign
+      ));
+      setEditingStepsFor(null);
+      toast({
+        title: "Follow-ups Saved",
+        description: editSteps.length > 0
+          ? `${editSteps.length} follow-ups will go to recipients not marked as replied`
+          : "This campaign sends a single email",
+      });
+    } catch (error: unknown) {
+      console.error('Error saving follow-ups:', error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to save follow-ups"),
+        variant: "destructive",
+      });
+    } finally {
+      setSavingSteps(false);
+    }
+  };
+
+  const editRecipients = async (campaignId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('campaign_recipients')
+        .select('recruiter_id')
+        .eq('campaign_id', campaignId);
+
+      if (error) throw error;
+      setEditRecipientIds((data || []).map((row) => row.recruiter_id));
+      setEditingRecipientsFor(campaignId);
+    } catch (error: unknown) {
+      console.error('Error loading recipients:', error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to load recipients"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const saveRecipients = async (campaign: Campaign) => {
+    if (!editRecipientIds || editRecipientIds.length === 0) {
+      toast({
+        title: "Error",
+        description: "Select at least one recipient",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingRecipients(true);
+    try {
+      const { error } = await supabase
+        .from('campaign_recipients')
+        .delete()
+        .eq('campaign_id', campaign.id)
+        .not('recruiter_id', 'in', `(${editRecipientIds.join(',')})`);
+
+      if (error) throw error;
+      await addRecipients(new Map([[campaign.companies.id, campaign.id]]), editRecipientIds);
+
+      setCampaigns(campaigns.map((row) =>
+        row.id === campaign.id ? { ...row, campaign_recipients: [{ count: editRecipientIds.length }] } : row
+      ));
+      setEditingRecipientsFor(null);
+      toast({
+        title: "Recipients Saved",
+        description: `${editRecipientIds.length} recipients selected for this campaign`,
+      });
+    } catch (error: unknown) {
+      console.error('Error saving recipients:', error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to save recipients"),
+        variant: "destructive",
+      });
+    } finally {
+      setSavingRecipients(false);
+    }
+  };
+
   const resetForm = () => {
     setSelectedCompany("");
+    setBulkCompanyIds([]);
     setPositionTitle("");
     setEmailSubject("");
     setEmailTemplate(defaultEmailTemplate);
+    setRecipientIds(null);
+    setSendLater(false);
+    setScheduleAt("");
+    setFollowUps([]);
   };
 
+  const recipientCount = (campaign: Campaign) => campaign.campaign_recipients[0]?.count ?? 0;
+
+  const followUpCount = (campaign: Campaign) => campaign.campaign_steps[0]?.count ?? 0;
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'draft': return 'bg-muted text-muted-foreground border-border';
+      case 'scheduled': return 'bg-violet-50 text-violet-700 border-violet-200 dark:bg-violet-950 dark:text-violet-300 dark:border-violet-800';
       case 'sending': return 'bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-950 dark:text-blue-300 dark:border-blue-800';
       case 'completed': return 'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-950 dark:text-emerald-300 dark:border-emerald-800';
+      case 'paused': return 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-300 dark:border-amber-800';
+      case 'cancelled': return 'bg-slate-100 text-slate-500 border-slate-300 dark:bg-slate-900 dark:text-slate-400 dark:border-slate-700';
       case 'failed': return 'bg-red-50 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-300 dark:border-red-800';
       default: return 'bg-muted text-muted-foreground border-border';
     }
   };
 
+  const scheduleFields = (idPrefix: string) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-at`}>Send At</Label>
+        <Input
+          id={`${idPrefix}-at`}
+          type="datetime-local"
+          value={scheduleAt}
+          onChange={(e) => setScheduleAt(e.target.value)}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label>Timezone</Label>
+        <Select value={scheduleTimezone} onValueChange={setScheduleTimezone}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(timezoneOptions().includes(scheduleTimezone)
+              ? timezoneOptions()
+              : [scheduleTimezone, ...timezoneOptions()]
+            ).map((timeZone) => (
+              <SelectItem key={timeZone} value={timeZone}>{timeZone}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+
   if (companies.length === 0) {
     return (
       <div className="text-center py-8">
@@ -257,21 +678,37 @@ Best regards,
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="company">Target Company *</Label>
-                <Select value={selectedCompany} onValueChange={setSelectedCompany}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select a company" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {companies.map((company) => (
-                      <SelectItem key={company.id} value={company.id}>
-                        {company.name}
-                      </SelectItem>
+              {bulkCompanyIds.length > 0 ? (
+                <div className="space-y-2">
+                  <Label>Target Companies ({bulkCompanyIds.length})</Label>
+                  <div className="flex flex-wrap gap-1">
+                    {bulkCompanyIds.map((companyId) => (
+                      <Badge key={companyId} variant="secondary">
+                        {companies.find((company) => company.id === companyId)?.name || companyId}
+                      </Badge>
                     ))}
-                  </SelectContent>
-                </Select>
-              </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    One campaign will be created for each company.
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="company">Target Company *</Label>
+                  <Select value={selectedCompany} onValueChange={selectCompany}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a company" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {companies.map((company) => (
+                        <SelectItem key={company.id} value={company.id}>
+                          {company.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               <div className="space-y-2">
                 <Label htmlFor="position">Position Title *</Label>
                 <Input
@@ -283,6 +720,18 @@ Best regards,
               </div>
             </div>
 
+            {targetCompanyIds.length > 0 && (
+              <div className="space-y-2">
+                <Label>Recipients *</Label>
+                <RecipientPicker
+                  key={targetCompanyIds.join(',')}
+                  companyIds={targetCompanyIds}
+                  selected={recipientIds}
+                  onChange={setRecipientIds}
+                />
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="subject">Email Subject *</Label>
               <Input
@@ -307,6 +756,22 @@ Best regards,
               </p>
             </div>
 
+            <div className="space-y-2">
+              <Label>Follow-ups</Label>
+              <p className="text-xs text-muted-foreground">
+                Sent in the same thread to recipients who haven't replied, bounced or unsubscribed.
+              </p>
+              <SequenceSteps steps={followUps} onChange={setFollowUps} />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Switch id="sendLater" checked={sendLater} onCheckedChange={setSendLater} />
+                <Label htmlFor="sendLater">Schedule for later</Label>
+              </div>
+              {sendLater && scheduleFields("newSchedule")}
+            </div>
+
             <div className="flex gap-2">
               <Button onClick={createCampaign} disabled={loading}>
                 {loading ? (
@@ -314,6 +779,8 @@ Best regards,
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     Creating...
                   </>
+                ) : sendLater ? (
+                  "Create & Schedule"
                 ) : (
                   "Create Campaign"
                 )}
@@ -360,7 +827,14 @@ Best regards,
                       </CardTitle>
                       <CardDescription className="mt-1">
                         Subject: {campaign.email_subject}
+                        {followUpCount(campaign) > 0 && ` · ${followUpCount(campaign)} follow-ups`}
                       </CardDescription>
+                      {campaign.status === 'scheduled' && campaign.scheduled_at && (
+                        <p className="mt-1 text-sm text-muted-foreground flex items-center gap-1">
+                          <CalendarClock className="h-4 w-4" />
+                          Sends {formatInTimezone(campaign.scheduled_at, campaign.scheduled_timezone || localTimezone())}
+                        </p>
+                      )}
                     </div>
                     <Badge 
                       variant="outline" 
@@ -392,31 +866,177 @@ Best regards,
                     </div>
                   </div>
 
-                  <div className="flex gap-2">
-                    {campaign.status === 'draft' && (
-                      <Button 
-                        onClick={() => sendCampaign(campaign.id)}
-                        disabled={loading}
-                        size="sm"
-                      >
-                        <Send className="mr-2 h-4 w-4" />
-                        Send Campaign
+                  {(campaign.status === 'sending' || campaign.status === 'paused') && campaign.total_emails > 0 && (
+                    <div className="space-y-1 mb-4">
+                      <Progress value={(campaign.emails_sent / campaign.total_emails) * 100} />
+                      <p className="text-xs text-muted-foreground">
+                        {campaign.emails_sent} of {campaign.total_emails} sent; the rest are{" "}
+                        {campaign.status === 'paused' ? "on hold until you resume" : "queued"}
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    {(campaign.status === 'draft' || campaign.status === 'scheduled') && (
+                      <>
+                        <Button 
+                          onClick={() => sendCampaign(campaign.id)}
+                          disabled={loading || recipientCount(campaign) === 0}
+                          size="sm"
+                        >
+                          <Send className="mr-2 h-4 w-4" />
+                          {campaign.status === 'scheduled' ? "Send Now" : "Send Campaign"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => startScheduling(campaign)}
+                          disabled={schedulingFor === campaign.id}
+                        >
+                          <CalendarClock className="mr-2 h-4 w-4" />
+                          {campaign.status === 'scheduled' ? "Reschedule" : "Schedule"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => editFollowUps(campaign.id)}
+                          disabled={editingStepsFor === campaign.id}
+                        >
+                          <ListOrdered className="mr-2 h-4 w-4" />
+                          Follow-ups ({followUpCount(campaign)})
+                        </Button>
+                        {campaign.status === 'scheduled' && (
+                          <Button variant="outline" size="sm" onClick={() => unscheduleCampaign(campaign.id)}>
+                            <X className="mr-2 h-4 w-4" />
+                            Cancel Schedule
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => editRecipients(campaign.id)}
+                          disabled={editingRecipientsFor === campaign.id}
+                        >
+                          <Users className="mr-2 h-4 w-4" />
+                          Recipients ({recipientCount(campaign)})
+                        </Button>
+                      </>
+                    )}
+                    {campaign.status === 'sending' && (
+                      <Button variant="outline" size="sm" onClick={() => changeSendingState(campaign.id, 'pause')}>
+                        <Pause className="mr-2 h-4 w-4" />
+                        Pause
                       </Button>
                     )}
-                    <Button variant="outline" size="sm">
-                      <Eye className="mr-2 h-4 w-4" />
-                      View Details
-                    </Button>
-                    <Button 
-                      variant="outline" 
+                    {campaign.status === 'paused' && (
+                      <Button size="sm" onClick={() => changeSendingState(campaign.id, 'resume')}>
+                        <Play className="mr-2 h-4 w-4" />
+                        Resume
+                      </Button>
+                    )}
+                    {(campaign.status === 'sending' || campaign.status === 'paused') && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm" className="text-destructive hover:text-destructive">
+                            <Ban className="mr-2 h-4 w-4" />
+                            Cancel Sending
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Cancel this campaign?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Emails that haven't gone out yet, follow-ups included, are cancelled. This can't be undone.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Keep Sending</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => changeSendingState(campaign.id, 'cancel')}>
+                              Cancel Campaign
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                    <Button
+                      variant="outline"
                       size="sm"
-                      onClick={() => deleteCampaign(campaign.id)}
-                      className="text-destructive hover:text-destructive"
+                      onClick={() => setDetailsFor(detailsFor === campaign.id ? null : campaign.id)}
                     >
-                      <Trash2 className="mr-2 h-4 w-4" />
-                      Delete
+                      <Eye className="mr-2 h-4 w-4" />
+                      {detailsFor === campaign.id ? "Hide Details" : "View Details"}
                     </Button>
+                    {/* A campaign still going out is cancelled first, so the worker isn't mid-send */}
+                    {campaign.status !== 'sending' && campaign.status !== 'paused' && (
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => deleteCampaign(campaign.id)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete
+                      </Button>
+                    )}
                   </div>
+
+                  {schedulingFor === campaign.id && (
+                    <div className="mt-4 space-y-3">
+                      <Separator />
+                      {scheduleFields(`schedule-${campaign.id}`)}
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={() => saveSchedule(campaign.id)}>
+                          Save Schedule
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setSchedulingFor(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {editingStepsFor === campaign.id && (
+                    <div className="mt-4 space-y-3">
+                      <Separator />
+                      <SequenceSteps steps={editSteps} onChange={setEditSteps} />
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={() => saveFollowUps(campaign.id)} disabled={savingSteps}>
+                          {savingSteps && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                          Save Follow-ups
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setEditingStepsFor(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {detailsFor === campaign.id && (
+                    <div className="mt-4 space-y-3">
+                      <Separator />
+                      <CampaignRecipients campaignId={campaign.id} stepCount={followUpCount(campaign) + 1} />
+                    </div>
+                  )}
+
+                  {editingRecipientsFor === campaign.id && (
+                    <div className="mt-4 space-y-3">
+                      <Separator />
+                      <RecipientPicker
+                        companyIds={[campaign.companies.id]}
+                        selected={editRecipientIds}
+                        onChange={setEditRecipientIds}
+                      />
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={() => saveRecipients(campaign)} disabled={savingRecipients}>
+                          {savingRecipients && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                          Save Recipients
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setEditingRecipientsFor(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
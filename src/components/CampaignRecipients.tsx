@@ -0,0 +1,218 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { errorMessage } from "@/lib/errors";
+import { Loader2, MailCheck, MailX, Users } from "lucide-react";
+
+interface Recipient {
+  id: string;
+  recruiter_id: string;
+  status: string;
+  stopped_reason: string | null;
+  recruiters: {
+    first_name: string | null;
+    last_name: string | null;
+    email: string;
+  } | null;
+}
+
+interface StepLog {
+  recruiter_id: string;
+  step_number: number;
+  status: string | null;
+  send_after: string | null;
+}
+
+interface CampaignRecipientsProps {
+  campaignId: string;
+  // Emails in the sequence, the first one included
+  stepCount: number;
+}
+
+const STOP_LABELS: Record<string, string> = {
+  replied: "Replied",
+  bounced: "Bounced",
+  unsubscribed: "Unsubscribed",
+};
+
+const SENT_STATUSES = ['sent', 'delivered', 'opened', 'clicked', 'bounced'];
+
+// Who a campaign went to, how far each recipient is through the sequence, and
+// controls to take someone out of it when they reply or ask not to be emailed
+const CampaignRecipients = ({ campaignId, stepCount }: CampaignRecipientsProps) => {
+  const [recipients, setRecipients] = useState<Recipient[]>([]);
+  const [logs, setLogs] = useState<StepLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [stoppingId, setStoppingId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchRecipients();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [campaignId]);
+
+  const fetchRecipients = async () => {
+    try {
+      const [{ data, error }, { data: logRows, error: logsError }] = await Promise.all([
+        supabase
+          .from('campaign_recipients')
+          .select(`
+            id, recruiter_id, status, stopped_reason,
+            recruiters (
+              first_name, last_name, email
+            )
+          `)
+          .eq('campaign_id', campaignId)
+          .order('created_at'),
+        supabase
+          .from('email_logs')
+          .select('recruiter_id, step_number, status, send_after')
+          .eq('campaign_id', campaignId),
+      ]);
+
+      if (error) throw error;
+      if (logsError) throw logsError;
+      setRecipients(data || []);
+      setLogs(logRows || []);
+    } catch (error) {
+      console.error('Error fetching campaign recipients:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const stopSequence = async (recipient: Recipient, reason: 'replied' | 'unsubscribed') => {
+    setStoppingId(recipient.id);
+    try {
+      const { error } = await supabase.rpc('stop_sequence', {
+        p_campaign_id: campaignId,
+        p_recruiter_id: recipient.recruiter_id,
+        p_reason: reason,
+      });
+
+      if (error) throw error;
+      await fetchRecipients();
+      toast({
+        title: reason === 'replied' ? "Marked as Replied" : "Unsubscribed",
+        description: reason === 'replied'
+          ? `${recipient.recruiters?.email} won't get further follow-ups from this campaign`
+          : `${recipient.recruiters?.email} won't be emailed by any campaign again`,
+      });
+    } catch (error: unknown) {
+      console.error('Error stopping sequence:', error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to update recipient"),
+        variant: "destructive",
+      });
+    } finally {
+      setStoppingId(null);
+    }
+  };
+
+  const progress = (recipient: Recipient) => {
+    const steps = logs.filter((log) => log.recruiter_id === recipient.recruiter_id);
+    const sent = steps.filter((log) => SENT_STATUSES.includes(log.status || '')).length;
+    const next = steps
+      .filter((log) => log.status === 'pending' && log.send_after)
+      .sort((a, b) => a.step_number - b.step_number)[0];
+    return { sent, next };
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (recipients.length === 0) {
+    return (
+      <div className="text-center py-6 text-muted-foreground">
+        <Users className="h-10 w-10 mx-auto mb-2 opacity-50" />
+        <p>No recipients selected for this campaign.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {stepCount > 1 && (
+        <p className="text-sm text-muted-foreground">
+          Replies aren't picked up from your inbox: when someone replies, mark them as replied here to stop their follow-ups.
+        </p>
+      )}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Recipient</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Sequence</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {recipients.map((recipient) => {
+            const { sent, next } = progress(recipient);
+            const name = `${recipient.recruiters?.first_name || ''} ${recipient.recruiters?.last_name || ''}`.trim();
+            return (
+              <TableRow key={recipient.id}>
+                <TableCell>
+                  <div className="font-medium">{name || '—'}</div>
+                  <div className="text-xs text-muted-foreground">{recipient.recruiters?.email}</div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">{recipient.status}</Badge>
+                  {recipient.stopped_reason && (
+                    <Badge variant="secondary" className="ml-2">
+                      {STOP_LABELS[recipient.stopped_reason] || recipient.stopped_reason}
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {sent} of {stepCount} sent
+                  {next && !recipient.stopped_reason && (
+                    <div className="text-xs text-muted-foreground">
+                      Step {next.step_number} due {new Date(next.send_after!).toLocaleString()}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {!recipient.stopped_reason && (
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={stoppingId === recipient.id}
+                        onClick={() => stopSequence(recipient, 'replied')}
+                      >
+                        <MailCheck className="mr-2 h-4 w-4" />
+                        Replied
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={stoppingId === recipient.id}
+                        onClick={() => stopSequence(recipient, 'unsubscribed')}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <MailX className="mr-2 h-4 w-4" />
+                        Unsubscribe
+                      </Button>
+                    </div>
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default CampaignRecipients;
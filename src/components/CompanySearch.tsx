@@ -5,9 +5,16 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { Search, Building2, Users, Mail, MapPin, Briefcase, Loader2 } from "lucide-react";
+import InferEmailForm from "@/components/InferEmailForm";
+import SearchHistory, { type SearchHistoryEntry } from "@/components/SearchHistory";
+import { readEventStream } from "@/lib/sse";
+import { errorMessage } from "@/lib/errors";
+import { RELEVANCE_LABELS, getEmailStatusColor } from "@/lib/recruiters";
+import { formatDistanceToNow } from "date-fns";
+import { Search, Building2, Users, Mail, MapPin, Briefcase, Loader2, ShieldCheck, Globe, RefreshCw } from "lucide-react";
 
 interface Company {
   id: string;
@@ -16,6 +23,8 @@ interface Company {
   industry: string;
   size: string;
   location: string;
+  enriched_at: string | null;
+  enrichment_source: string | null;
 }
 
 interface Recruiter {
@@ -26,23 +35,173 @@ interface Recruiter {
   title: string;
   department: string;
   email_status: string;
+  relevance_score: number | null;
+  relevance_category: string | null;
+  email_verified_at: string | null;
+  email_verification: { reasons?: string[] } | null;
+  email_source: string;
+  email_confidence: number | null;
+  field_sources?: Record<string, string> | null;
+  sources?: { provider: string; email: string; confidence: number | null }[];
+}
+
+interface MissingRecruiter {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string;
+  title: string | null;
+}
+
+// Who appeared or disappeared since the previous search of the same company
+interface SearchDiff {
+  previousSearchAt: string;
+  added: string[];
+  missing: MissingRecruiter[];
 }
 
 interface SearchResult {
+  searchId?: string;
+  diff?: SearchDiff | null;
   company: Company;
   recruiters: Recruiter[];
   totalFound: number;
+  relevantCount?: number;
+  emailPatterns?: { pattern: string; matches: number; share: number }[];
+  resolution?: { source: string; candidates: CompanyCandidate[] };
+  providers?: ProviderRun[];
+  message?: string;
+}
+
+type ProviderStatus = 'ok' | 'empty' | 'auth_error' | 'rate_limited' | 'network_error' | 'not_configured' | 'error';
+
+interface ProviderRun {
+  provider: string;
+  // Missing on searches recorded before provider statuses were reported
+  status?: ProviderStatus;
   message?: string;
+  fromCache: boolean;
+  skipped?: boolean;
+  fetchedAt: string;
+  ageSeconds: number;
+  contacts: number;
+  pages?: { page: number; fetched: number; total: number; relevant: number }[];
+  error?: string;
+}
+
+interface CompanyCandidate {
+  name: string;
+  domain: string;
+  source: string;
+  score: number;
+}
+
+interface SearchResponse extends SearchResult {
+  needsSelection?: boolean;
+  candidates?: CompanyCandidate[];
 }
 
+// Live state of a running search, built from the streamed progress events
+interface SearchProgress {
+  company?: { name: string; domain: string };
+  providers: Record<string, { status: 'running' | 'done' | 'cached' | 'skipped' | 'failed'; contacts: number; pages: number; error?: string }>;
+  saved: string[];
+}
+
+const PROVIDER_STATUS_LABELS: Record<ProviderStatus, string> = {
+  ok: "OK",
+  empty: "No results",
+  auth_error: "Auth error",
+  rate_limited: "Rate limited",
+  network_error: "Network error",
+  not_configured: "Not configured",
+  error: "Error",
+};
+
+const providerStatusOf = (run: ProviderRun): ProviderStatus =>
+  run.status ?? (run.skipped ? 'rate_limited' : run.error ? 'error' : run.contacts > 0 ? 'ok' : 'empty');
+
 const CompanySearch = () => {
   const [companyInput, setCompanyInput] = useState("");
   const [loading, setLoading] = useState(false);
   const [searchResult, setSearchResult] = useState<SearchResult | null>(null);
+  const [showAllContacts, setShowAllContacts] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [candidates, setCandidates] = useState<CompanyCandidate[]>([]);
+  const [enriching, setEnriching] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
+  const [progress, setProgress] = useState<SearchProgress | null>(null);
   const { toast } = useToast();
 
-  const handleSearch = async () => {
-    if (!companyInput.trim()) {
+  // Applies the search's progress events as they arrive and resolves with its final result
+  const readSearchStream = async (response: Response): Promise<SearchResponse> => {
+    let result: SearchResponse | null = null;
+    let failure: string | null = null;
+    setProgress({ providers: {}, saved: [] });
+
+    await readEventStream(response.body!, ({ event, data }) => {
+      const payload = JSON.parse(data);
+      switch (event) {
+        case 'company_resolved':
+          setProgress((current) => current && { ...current, company: payload.company });
+          break;
+        case 'provider_started':
+          setProgress((current) => current && {
+            ...current,
+            providers: { ...current.providers, [payload.provider]: { status: 'running', contacts: 0, pages: 0 } },
+          });
+          break;
+        case 'provider_page':
+          setProgress((current) => current && {
+            ...current,
+            providers: {
+              ...current.providers,
+              [payload.provider]: { status: 'running', contacts: payload.progress.total, pages: payload.progress.page },
+            },
+          });
+          break;
+        case 'provider_finished': {
+          const run: ProviderRun = payload.run;
+          setProgress((current) => current && {
+            ...current,
+            providers: {
+              ...current.providers,
+              [run.provider]: {
+                status: run.skipped || run.status === 'not_configured'
+                  ? 'skipped'
+                  : run.error ? 'failed' : run.fromCache ? 'cached' : 'done',
+                contacts: run.contacts,
+                pages: run.pages?.length ?? 0,
+                error: run.message || run.error,
+              },
+            },
+          });
+          break;
+        }
+        case 'recruiter_saved': {
+          const recruiter: Recruiter = payload.recruiter;
+          const name = `${recruiter.first_name || ''} ${recruiter.last_name || ''}`.trim() || recruiter.email;
+          setProgress((current) => current && { ...current, saved: [...current.saved, name] });
+          break;
+        }
+        case 'result':
+          result = payload;
+          break;
+        case 'error':
+          failure = payload.details || payload.error || "Search failed";
+          break;
+      }
+    });
+
+    if (failure) throw new Error(failure);
+    if (!result) throw new Error("The search ended without a result");
+    return result;
+  };
+
+  // A picked candidate searches by its domain and keeps its display name.
+  // forceRefresh skips cached provider responses.
+  const handleSearch = async (picked?: CompanyCandidate, forceRefresh = false, input = companyInput) => {
+    if (!picked && !input.trim()) {
       toast({
         title: "Error",
         description: "Please enter a company name or domain",
@@ -53,9 +212,12 @@ const CompanySearch = () => {
 
     setLoading(true);
     try {
-      const { data, error } = await supabase.functions.invoke('search-recruiters', {
+      const { data: response, error } = await supabase.functions.invoke('search-recruiters', {
         body: {
-          companyInput: companyInput.trim(),
+          companyInput: picked ? picked.domain : input.trim(),
+          companyName: picked?.name,
+          forceRefresh,
+          stream: true,
         },
       });
 
@@ -63,7 +225,22 @@ const CompanySearch = () => {
         throw error;
       }
 
+      // Streamed searches come back as the raw response; fall back to plain JSON
+      const data: SearchResponse = response instanceof Response ? await readSearchStream(response) : response;
+
+      if (data.needsSelection) {
+        setCandidates(data.candidates || []);
+        setSearchResult(null);
+        toast({
+          title: "Which company?",
+          description: data.message,
+        });
+        return;
+      }
+
+      setCandidates([]);
       setSearchResult(data);
+      setShowAllContacts(false);
       
       if (data.message) {
         // Handle plan limitation message
@@ -87,18 +264,194 @@ const CompanySearch = () => {
       });
     } finally {
       setLoading(false);
+      setProgress(null);
+      setHistoryKey((key) => key + 1);
+    }
+  };
+
+  // Re-opens a past search from the stored result set, without querying providers
+  const openSearch = async (searchId: string) => {
+    try {
+      const { data: search, error } = await supabase
+        .from('searches')
+        .select('*, companies (*)')
+        .eq('id', searchId)
+        .single();
+
+      if (error) throw error;
+      if (!search.companies) throw new Error("The company for this search no longer exists");
+
+      const { data: recruiters, error: recruitersError } = await supabase
+        .from('recruiters')
+        .select(`
+          *,
+          recruiter_sources (
+            provider, email, confidence
+          )
+        `)
+        .in('id', [...search.recruiter_ids, ...search.missing_recruiter_ids]);
+
+      if (recruitersError) throw recruitersError;
+
+      // Stored provenance stands in for the "found via" a live search reports
+      const resultIds = new Set(search.recruiter_ids);
+      const found = (recruiters || [])
+        .filter((recruiter) => resultIds.has(recruiter.id))
+        .sort((a, b) => (b.relevance_score ?? 0) - (a.relevance_score ?? 0))
+        .map(({ recruiter_sources, ...recruiter }) => ({ ...recruiter, sources: recruiter_sources })) as unknown as Recruiter[];
+
+      let diff: SearchDiff | null = null;
+      if (search.previous_search_id) {
+        const { data: previous } = await supabase
+          .from('searches')
+          .select('created_at')
+          .eq('id', search.previous_search_id)
+          .maybeSingle();
+        const missingIds = new Set(search.missing_recruiter_ids);
+        diff = {
+          previousSearchAt: previous?.created_at || search.created_at,
+          added: search.added_recruiter_ids,
+          missing: (recruiters || []).filter((recruiter) => missingIds.has(recruiter.id)),
+        };
+      }
+
+      setCompanyInput(search.input);
+      setCandidates([]);
+      setShowAllContacts(false);
+      setSearchResult({
+        searchId: search.id,
+        diff,
+        company: search.companies as unknown as Company,
+        recruiters: found,
+        totalFound: found.length,
+        relevantCount: search.relevant_count,
+        providers: search.providers as unknown as ProviderRun[],
+        message: `Results from ${formatDistanceToNow(new Date(search.created_at), { addSuffix: true })}`,
+      });
+    } catch (error: unknown) {
+      console.error('Error opening search:', error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to open search"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const rerunSearch = (entry: SearchHistoryEntry) => {
+    setCompanyInput(entry.input);
+    if (entry.domain && entry.companies) {
+      handleSearch({ name: entry.companies.name, domain: entry.domain, source: 'database', score: 100 }, false, entry.input);
+    } else {
+      handleSearch(undefined, false, entry.input);
+    }
+  };
+
+  const verifyEmails = async () => {
+    if (!searchResult) return;
+
+    setVerifying(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('verify-emails', {
+        body: {
+          companyId: searchResult.company.id,
+        },
+      });
+
+      if (error) throw error;
+
+      const resultsById = new Map<string, { email_status: string; reasons: string[] }>(
+        data.results.map((result: { id: string; email_status: string; reasons: string[] }) => [result.id, result])
+      );
+      setSearchResult({
+        ...searchResult,
+        recruiters: searchResult.recruiters.map((recruiter) => {
+          const result = resultsById.get(recruiter.id);
+          return result
+            ? {
+                ...recruiter,
+                email_status: result.email_status,
+                email_verification: { reasons: result.reasons },
+                email_verified_at: new Date().toISOString(),
+              }
+            : recruiter;
+        }),
+      });
+
+      toast({
+        title: "Verification Complete",
+        description: `Verified ${data.verified} emails: ${data.summary.valid || 0} valid, ${data.summary.risky || 0} risky, ${data.summary.invalid || 0} invalid`,
+      });
+    } catch (error: unknown) {
+      console.error('Verification error:', error);
+      toast({
+        title: "Verification Failed",
+        description: errorMessage(error, "Failed to verify emails"),
+        variant: "destructive",
+      });
+    } finally {
+      setVerifying(false);
     }
   };
 
-  const getStatusColor = (status: string) => {
+  const refreshCompany = async () => {
+    if (!searchResult) return;
+
+    setEnriching(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('enrich-company', {
+        body: {
+          companyId: searchResult.company.id,
+        },
+      });
+
+      if (error) throw error;
+
+      setSearchResult({ ...searchResult, company: data.company });
+      toast({
+        title: "Company Refreshed",
+        description: data.errors?.length
+          ? `Updated with some provider errors: ${data.errors.join('; ')}`
+          : `Updated details for ${data.company.name}`,
+      });
+    } catch (error: unknown) {
+      console.error('Enrichment error:', error);
+      toast({
+        title: "Refresh Failed",
+        description: errorMessage(error, "Failed to refresh company details"),
+        variant: "destructive",
+      });
+    } finally {
+      setEnriching(false);
+    }
+  };
+
+  const addRecruiter = (recruiter: Recruiter) => {
+    if (!searchResult || searchResult.recruiters.some((existing) => existing.id === recruiter.id)) return;
+    setSearchResult({
+      ...searchResult,
+      recruiters: [recruiter, ...searchResult.recruiters],
+      totalFound: searchResult.totalFound + 1,
+    });
+  };
+
+  const getProviderStatusColor = (status: ProviderStatus) => {
     switch (status) {
-      case 'valid': return 'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-950 dark:text-emerald-300 dark:border-emerald-800';
-      case 'risky': return 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-300 dark:border-amber-800';
-      case 'invalid': return 'bg-red-50 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-300 dark:border-red-800';
+      case 'ok': return 'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-950 dark:text-emerald-300 dark:border-emerald-800';
+      case 'rate_limited': return 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-300 dark:border-amber-800';
+      case 'auth_error':
+      case 'network_error':
+      case 'error': return 'bg-red-50 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-300 dark:border-red-800';
       default: return 'bg-muted text-muted-foreground border-border';
     }
   };
 
+  const visibleRecruiters = searchResult
+    ? searchResult.recruiters.filter(
+        (recruiter) => showAllContacts || recruiter.relevance_category !== 'other'
+      )
+    : [];
+
   return (
     <div className="space-y-6">
       {/* Search Form */}
@@ -116,7 +469,7 @@ const CompanySearch = () => {
       </div>
 
       <Button 
-        onClick={handleSearch} 
+        onClick={() => handleSearch()} 
         disabled={loading || !companyInput.trim()}
         className="w-full md:w-auto"
         size="lg"
@@ -134,6 +487,73 @@ const CompanySearch = () => {
         )}
       </Button>
 
+      {/* Live Progress */}
+      {loading && progress && (
+        <Card>
+          <CardContent className="pt-6 space-y-3 text-sm">
+            <div className="flex items-center gap-2">
+              <Building2 className="h-4 w-4 text-primary" />
+              {progress.company
+                ? <span>Resolved to <span className="font-medium">{progress.company.name}</span> ({progress.company.domain})</span>
+                : <span className="text-muted-foreground">Resolving company...</span>}
+            </div>
+            {Object.entries(progress.providers).map(([provider, state]) => (
+              <div key={provider} className="flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2">
+                  {state.status === 'running'
+                    ? <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    : <Mail className="h-4 w-4 text-muted-foreground" />}
+                  {provider}
+                </span>
+                <span className={state.status === 'failed' ? 'text-red-600' : 'text-muted-foreground'}>
+                  {state.status === 'running' && `page ${state.pages} · ${state.contacts} contacts`}
+                  {state.status === 'done' && `${state.contacts} contacts`}
+                  {state.status === 'cached' && `${state.contacts} contacts (cached)`}
+                  {state.status === 'skipped' && (state.error || 'skipped')}
+                  {state.status === 'failed' && (state.error || 'failed')}
+                </span>
+              </div>
+            ))}
+            {progress.saved.length > 0 && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Users className="h-4 w-4" />
+                Saved {progress.saved.length} recruiters
+                <span className="truncate">· {progress.saved.slice(-3).join(', ')}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Company Candidates */}
+      {candidates.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Which company did you mean?</CardTitle>
+            <CardDescription>
+              "{companyInput.trim()}" matches more than one company.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid gap-2">
+            {candidates.map((candidate) => (
+              <Button
+                key={candidate.domain}
+                variant="outline"
+                className="justify-between"
+                disabled={loading}
+                onClick={() => handleSearch(candidate)}
+              >
+                <span className="flex items-center gap-2">
+                  <Building2 className="h-4 w-4" />
+                  {candidate.name}
+                </span>
+                <span className="text-muted-foreground text-xs">{candidate.domain}</span>
+              </Button>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Search Results */}
       {searchResult && (
         <div className="space-y-6">
@@ -142,15 +562,26 @@ const CompanySearch = () => {
           {/* Company Info */}
           <Card>
             <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Building2 className="h-5 w-5 text-primary" />
-                {searchResult.company.name}
-              </CardTitle>
-              <CardDescription className="flex items-center gap-4 text-sm">
+              <div className="flex items-start justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Building2 className="h-5 w-5 text-primary" />
+                  {searchResult.company.name}
+                </CardTitle>
+                <Button variant="ghost" size="sm" onClick={refreshCompany} disabled={enriching}>
+                  <RefreshCw className={`mr-2 h-4 w-4 ${enriching ? 'animate-spin' : ''}`} />
+                  Refresh Details
+                </Button>
+              </div>
+              <CardDescription className="flex flex-wrap items-center gap-4 text-sm">
                 {searchResult.company.domain && (
                   <span className="flex items-center gap-1">
-                    <MapPin className="h-3 w-3" />
+                    <Globe className="h-3 w-3" />
                     {searchResult.company.domain}
+                    {searchResult.resolution?.source === 'guess' && (
+                      <Badge variant="outline" className="ml-1" title="No known company matched, so the domain was guessed from the name">
+                        guessed domain
+                      </Badge>
+                    )}
                   </span>
                 )}
                 {searchResult.company.industry && (
@@ -165,7 +596,18 @@ const CompanySearch = () => {
                     {searchResult.company.size}
                   </span>
                 )}
+                {searchResult.company.location && (
+                  <span className="flex items-center gap-1">
+                    <MapPin className="h-3 w-3" />
+                    {searchResult.company.location}
+                  </span>
+                )}
               </CardDescription>
+              <p className="text-xs text-muted-foreground">
+                {searchResult.company.enriched_at
+                  ? `Details updated ${formatDistanceToNow(new Date(searchResult.company.enriched_at), { addSuffix: true })}${searchResult.company.enrichment_source ? ` via ${searchResult.company.enrichment_source}` : ''}`
+                  : 'Company details have not been fetched yet'}
+              </p>
             </CardHeader>
           </Card>
 
@@ -174,20 +616,118 @@ const CompanySearch = () => {
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold flex items-center gap-2">
                 <Users className="h-5 w-5 text-primary" />
-                Recruiters Found ({searchResult.recruiters.length})
+                Recruiters Found ({visibleRecruiters.length})
               </h3>
-              {searchResult.totalFound > searchResult.recruiters.length && (
-                <Badge variant="outline">
-                  {searchResult.totalFound} total contacts found
-                </Badge>
-              )}
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={loading}
+                  onClick={() =>
+                    handleSearch(
+                      { name: searchResult.company.name, domain: searchResult.company.domain, source: 'database', score: 100 },
+                      true
+                    )
+                  }
+                >
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Search Again (skip cache)
+                </Button>
+                {searchResult.totalFound > visibleRecruiters.length && (
+                  <Badge variant="outline">
+                    {searchResult.totalFound} total contacts found
+                  </Badge>
+                )}
+                {searchResult.recruiters.length > 0 && (
+                  <Button variant="outline" size="sm" onClick={verifyEmails} disabled={verifying}>
+                    {verifying ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <ShieldCheck className="mr-2 h-4 w-4" />
+                    )}
+                    Verify Emails
+                  </Button>
+                )}
+              </div>
             </div>
 
-            {searchResult.recruiters.length === 0 ? (
+            {/* Provider Health */}
+            {searchResult.providers && searchResult.providers.length > 0 && (
+              <div className="mb-4 space-y-2">
+                <div className="flex flex-wrap gap-2">
+                  {searchResult.providers.map((run) => {
+                    const status = providerStatusOf(run);
+                    return (
+                      <Badge key={run.provider} variant="outline" className={getProviderStatusColor(status)} title={run.error}>
+                        {`${run.provider}: ${PROVIDER_STATUS_LABELS[status]}`}
+                        {(status === 'ok' || run.contacts > 0) && ` · ${run.contacts} contacts`}
+                        {/* A failure after some pages keeps what the earlier pages found */}
+                        {run.error && run.contacts > 0 && ' (partial)'}
+                        {(status === 'ok' || status === 'empty') && (run.fromCache
+                          ? ` (cached ${formatDistanceToNow(new Date(run.fetchedAt), { addSuffix: true })})`
+                          : run.pages && run.pages.length > 1
+                            ? ` (live, ${run.pages.length} pages)`
+                            : ' (live)')}
+                      </Badge>
+                    );
+                  })}
+                </div>
+                {searchResult.providers
+                  .filter((run) => run.message && providerStatusOf(run) !== 'ok' && providerStatusOf(run) !== 'empty')
+                  .map((run) => (
+                    <p key={run.provider} className="text-xs text-muted-foreground">
+                      {run.message}
+                    </p>
+                  ))}
+              </div>
+            )}
+
+            {searchResult.diff && (
+              <div className="rounded-md border p-3 mb-4 text-sm space-y-1">
+                <p>
+                  Since the search {formatDistanceToNow(new Date(searchResult.diff.previousSearchAt), { addSuffix: true })}:{' '}
+                  <span className="text-emerald-600">{searchResult.diff.added.length} new</span>,{' '}
+                  <span className="text-red-600">{searchResult.diff.missing.length} no longer found</span>
+                </p>
+                {searchResult.diff.missing.length > 0 && (
+                  <ul className="text-xs text-muted-foreground space-y-0.5">
+                    {searchResult.diff.missing.map((recruiter) => (
+                      <li key={recruiter.id}>
+                        {`${recruiter.first_name || ''} ${recruiter.last_name || ''}`.trim() || recruiter.email}
+                        {recruiter.title && ` · ${recruiter.title}`}
+                        {` · ${recruiter.email}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {searchResult.recruiters.length > 0 && (
+              <div className="flex items-center gap-2 mb-4">
+                <Switch
+                  id="showAllContacts"
+                  checked={showAllContacts}
+                  onCheckedChange={setShowAllContacts}
+                />
+                <Label htmlFor="showAllContacts" className="text-sm text-muted-foreground">
+                  Show contacts outside recruiting and HR
+                </Label>
+              </div>
+            )}
+
+            {visibleRecruiters.length === 0 ? (
               <Card>
                 <CardContent className="pt-6 text-center">
                   <Mail className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                  {searchResult.message ? (
+                  {searchResult.recruiters.length > 0 ? (
+                    <div>
+                      <p className="text-muted-foreground">
+                        {searchResult.recruiters.length} contacts found, but none of them work in recruiting or HR.
+                      </p>
+                      <p className="text-sm mt-2 text-muted-foreground">Turn on "Show contacts outside recruiting and HR" to see them.</p>
+                    </div>
+                  ) : searchResult.message ? (
                     <div className="space-y-3">
                       <p className="text-orange-600 font-medium">Apollo.io Plan Limitation</p>
                       <p className="text-muted-foreground">{searchResult.message}</p>
@@ -209,7 +749,7 @@ const CompanySearch = () => {
               </Card>
             ) : (
               <div className="grid gap-4">
-                {searchResult.recruiters.map((recruiter) => (
+                {visibleRecruiters.map((recruiter) => (
                   <Card key={recruiter.id} className="hover:shadow-md transition-shadow">
                     <CardContent className="pt-4">
                       <div className="flex items-start justify-between">
@@ -220,10 +760,27 @@ const CompanySearch = () => {
                             </h4>
                             <Badge 
                               variant="outline" 
-                              className={getStatusColor(recruiter.email_status)}
+                              className={getEmailStatusColor(recruiter.email_status)}
+                              title={recruiter.email_verification?.reasons?.join('\n') || (recruiter.email_verified_at ? undefined : 'Not verified yet')}
                             >
                               {recruiter.email_status}
                             </Badge>
+                            {recruiter.relevance_category && recruiter.relevance_category !== 'other' && (
+                              <Badge variant="secondary">
+                                {RELEVANCE_LABELS[recruiter.relevance_category] || recruiter.relevance_category}
+                                {recruiter.relevance_score != null && ` · ${recruiter.relevance_score}`}
+                              </Badge>
+                            )}
+                            {searchResult.diff?.added.includes(recruiter.id) && (
+                              <Badge variant="outline" className="bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-950 dark:text-emerald-300 dark:border-emerald-800">
+                                new since last search
+                              </Badge>
+                            )}
+                            {recruiter.email_source === 'inferred' && (
+                              <Badge variant="outline" title="Generated from the company's email pattern">
+                                inferred{recruiter.email_confidence != null && ` · ${recruiter.email_confidence}%`}
+                              </Badge>
+                            )}
                           </div>
                           <p className="text-sm text-muted-foreground">
                             {recruiter.title}
@@ -237,6 +794,19 @@ const CompanySearch = () => {
                             <Mail className="h-3 w-3" />
                             {recruiter.email}
                           </div>
+                          {recruiter.sources && recruiter.sources.length > 0 && (
+                            <p
+                              className="text-xs text-muted-foreground"
+                              title={Object.entries(recruiter.field_sources || {})
+                                .map(([field, provider]) => `${field}: ${provider}`)
+                                .join('\n')}
+                            >
+                              found via{' '}
+                              {recruiter.sources
+                                .map((source) => (source.confidence != null ? `${source.provider} (${source.confidence}%)` : source.provider))
+                                .join(', ')}
+                            </p>
+                          )}
                         </div>
                       </div>
                     </CardContent>
@@ -245,8 +815,24 @@ const CompanySearch = () => {
               </div>
             )}
           </div>
+
+          {searchResult.company.domain && (
+            <InferEmailForm
+              companyId={searchResult.company.id}
+              companyDomain={searchResult.company.domain}
+              emailPatterns={searchResult.emailPatterns}
+              onRecruiterAdded={addRecruiter}
+            />
+          )}
         </div>
       )}
+
+      <SearchHistory
+        refreshKey={historyKey}
+        onOpen={openSearch}
+        onRerun={rerunSearch}
+        disabled={loading}
+      />
     </div>
   );
 };
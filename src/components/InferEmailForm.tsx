@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { errorMessage } from "@/lib/errors";
+import { Loader2, Wand2 } from "lucide-react";
+
+interface EmailPatternStat {
+  pattern: string;
+  matches: number;
+  share: number;
+}
+
+interface Recruiter {
+  id: string;
+  email: string;
+  email_status: string;
+}
+
+interface InferEmailFormProps {
+  companyId: string;
+  companyDomain: string;
+  emailPatterns?: EmailPatternStat[];
+  onRecruiterAdded: (recruiter: Recruiter) => void;
+}
+
+const InferEmailForm = ({ companyId, companyDomain, emailPatterns, onRecruiterAdded }: InferEmailFormProps) => {
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [title, setTitle] = useState("");
+  const [linkedinUrl, setLinkedinUrl] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const topPattern = emailPatterns?.[0];
+
+  const generateEmail = async () => {
+    if (!firstName.trim() || !lastName.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a first and last name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('infer-email', {
+        body: {
+          companyId,
+          firstName: firstName.trim(),
+          lastName: lastName.trim(),
+          title: title.trim() || undefined,
+          linkedinUrl: linkedinUrl.trim() || undefined,
+        },
+      });
+
+      if (error) throw error;
+
+      onRecruiterAdded(data.recruiter);
+      setFirstName("");
+      setLastName("");
+      setTitle("");
+      setLinkedinUrl("");
+
+      toast({
+        title: data.recruiter.status === 'existing' ? "Contact Already Saved" : "Email Generated",
+        description: `${data.recruiter.email} (${data.recruiter.email_status})`,
+      });
+    } catch (error: unknown) {
+      console.error('Infer email error:', error);
+      toast({
+        title: "Generation Failed",
+        description: errorMessage(error, "Failed to generate an email"),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Wand2 className="h-4 w-4 text-primary" />
+          Add Someone You Know
+        </CardTitle>
+        <CardDescription>
+          Found a recruiter on LinkedIn? We'll guess their address at {companyDomain}
+          {topPattern
+            ? ` using the ${topPattern.pattern} format (${Math.round(topPattern.share * 100)}% of known contacts).`
+            : " using the most common formats."}
+          {" "}Guessed addresses are only emailed once they verify.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="inferFirstName">First Name *</Label>
+            <Input id="inferFirstName" value={firstName} onChange={(e) => setFirstName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="inferLastName">Last Name *</Label>
+            <Input id="inferLastName" value={lastName} onChange={(e) => setLastName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="inferTitle">Title</Label>
+            <Input
+              id="inferTitle"
+              placeholder="e.g., Technical Recruiter"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="inferLinkedin">LinkedIn URL</Label>
+            <Input
+              id="inferLinkedin"
+              placeholder="https://www.linkedin.com/in/..."
+              value={linkedinUrl}
+              onChange={(e) => setLinkedinUrl(e.target.value)}
+            />
+          </div>
+        </div>
+        <Button onClick={generateEmail} disabled={loading || !firstName.trim() || !lastName.trim()} size="sm">
+          {loading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Generating...
+            </>
+          ) : (
+            <>
+              <Wand2 className="mr-2 h-4 w-4" />
+              Generate Email
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InferEmailForm;
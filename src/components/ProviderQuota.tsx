@@ -0,0 +1,219 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { errorMessage } from "@/lib/errors";
+import { Gauge, Loader2, Save } from "lucide-react";
+
+interface ProviderBudget {
+  provider: string;
+  daily_limit: number | null;
+  monthly_limit: number | null;
+  per_second_limit: number | null;
+}
+
+interface ProviderUsageTotals {
+  provider: string;
+  credits_today: number;
+  credits_month: number;
+  rate_limited_today: number;
+}
+
+// Limits are edited as text so an empty field can mean "unlimited"
+type BudgetDraft = Record<keyof Omit<ProviderBudget, 'provider'>, string>;
+
+const toDraft = (budget: ProviderBudget): BudgetDraft => ({
+  daily_limit: budget.daily_limit?.toString() ?? "",
+  monthly_limit: budget.monthly_limit?.toString() ?? "",
+  per_second_limit: budget.per_second_limit?.toString() ?? "",
+});
+
+const parseLimit = (value: string) => (value.trim() === "" ? null : Number(value));
+
+const ProviderQuota = () => {
+  const [budgets, setBudgets] = useState<ProviderBudget[]>([]);
+  const [usage, setUsage] = useState<Record<string, ProviderUsageTotals>>({});
+  const [drafts, setDrafts] = useState<Record<string, BudgetDraft>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchQuota();
+  }, []);
+
+  const fetchQuota = async () => {
+    try {
+      setLoading(true);
+
+      const { data: budgetRows, error: budgetsError } = await supabase
+        .from('provider_budgets')
+        .select('provider, daily_limit, monthly_limit, per_second_limit')
+        .order('provider');
+
+      if (budgetsError) throw budgetsError;
+
+      const { data: totals, error: totalsError } = await supabase.rpc('provider_usage_totals');
+
+      if (totalsError) throw totalsError;
+
+      setBudgets(budgetRows || []);
+      setDrafts(Object.fromEntries((budgetRows || []).map((budget) => [budget.provider, toDraft(budget)])));
+      setUsage(Object.fromEntries((totals || []).map((total) => [total.provider, total])));
+    } catch (error) {
+      console.error('Error fetching provider quota:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveBudget = async (provider: string) => {
+    const draft = drafts[provider];
+    const values = {
+      daily_limit: parseLimit(draft.daily_limit),
+      monthly_limit: parseLimit(draft.monthly_limit),
+      per_second_limit: parseLimit(draft.per_second_limit),
+    };
+    if (Object.values(values).some((value) => value !== null && (Number.isNaN(value) || value < 0))) {
+      toast({
+        title: "Error",
+        description: "Limits must be positive numbers, or empty for unlimited",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(provider);
+    try {
+      const { error } = await supabase
+        .from('provider_budgets')
+        .update(values)
+        .eq('provider', provider);
+
+      if (error) throw error;
+
+      setBudgets(budgets.map((budget) => (budget.provider === provider ? { provider, ...values } : budget)));
+      toast({
+        title: "Budget Saved",
+        description: `Updated limits for ${provider}`,
+      });
+    } catch (error: unknown) {
+      console.error('Error saving budget:', error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to save budget"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const updateDraft = (provider: string, field: keyof BudgetDraft, value: string) => {
+    setDrafts({ ...drafts, [provider]: { ...drafts[provider], [field]: value } });
+  };
+
+  const remaining = (limit: number | null, used: number) =>
+    limit === null ? "Unlimited" : `${Math.max(limit - used, 0)} left`;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (budgets.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Gauge className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+        <h3 className="text-lg font-medium mb-2">No Providers Configured</h3>
+        <p className="text-muted-foreground">Provider budgets will appear here once they are set up.</p>
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Provider</TableHead>
+          <TableHead>Today</TableHead>
+          <TableHead>This Month</TableHead>
+          <TableHead>Daily Limit</TableHead>
+          <TableHead>Monthly Limit</TableHead>
+          <TableHead>Calls / Second</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {budgets.map((budget) => {
+          const totals = usage[budget.provider];
+          const usedToday = totals?.credits_today ?? 0;
+          const usedMonth = totals?.credits_month ?? 0;
+          const draft = drafts[budget.provider];
+          return (
+            <TableRow key={budget.provider}>
+              <TableCell className="font-medium">
+                {budget.provider}
+                {(totals?.rate_limited_today ?? 0) > 0 && (
+                  <Badge variant="outline" className="ml-2 bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-300 dark:border-amber-800">
+                    {totals.rate_limited_today} × 429 today
+                  </Badge>
+                )}
+              </TableCell>
+              <TableCell className="min-w-32">
+                <div className="text-sm">{usedToday} credits · {remaining(budget.daily_limit, usedToday)}</div>
+                {budget.daily_limit !== null && budget.daily_limit > 0 && (
+                  <Progress value={Math.min((usedToday / budget.daily_limit) * 100, 100)} className="h-1 mt-1" />
+                )}
+              </TableCell>
+              <TableCell className="min-w-32">
+                <div className="text-sm">{usedMonth} credits · {remaining(budget.monthly_limit, usedMonth)}</div>
+                {budget.monthly_limit !== null && budget.monthly_limit > 0 && (
+                  <Progress value={Math.min((usedMonth / budget.monthly_limit) * 100, 100)} className="h-1 mt-1" />
+                )}
+              </TableCell>
+              <TableCell>
+                <Input
+                  className="h-8 w-24"
+                  placeholder="∞"
+                  value={draft.daily_limit}
+                  onChange={(e) => updateDraft(budget.provider, 'daily_limit', e.target.value)}
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  className="h-8 w-24"
+                  placeholder="∞"
+                  value={draft.monthly_limit}
+                  onChange={(e) => updateDraft(budget.provider, 'monthly_limit', e.target.value)}
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  className="h-8 w-20"
+                  placeholder="∞"
+                  value={draft.per_second_limit}
+                  onChange={(e) => updateDraft(budget.provider, 'per_second_limit', e.target.value)}
+                />
+              </TableCell>
+              <TableCell>
+                <Button size="sm" variant="outline" onClick={() => saveBudget(budget.provider)} disabled={saving === budget.provider}>
+                  {saving === budget.provider ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                </Button>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default ProviderQuota;
@@ -0,0 +1,242 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { EMAIL_STATUSES, RELEVANCE_LABELS, getEmailStatusColor } from "@/lib/recruiters";
+import { Loader2, Users } from "lucide-react";
+
+interface Recruiter {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string;
+  title: string | null;
+  email_status: string | null;
+  email_source: string;
+  unsubscribed_at: string | null;
+  relevance_category: string | null;
+  companies: { name: string } | null;
+}
+
+interface RecipientPickerProps {
+  companyIds: string[];
+  // null until the user touches the selection; the default is filled in once recruiters load
+  selected: string[] | null;
+  onChange: (recruiterIds: string[]) => void;
+}
+
+const ALL_STATUSES = 'all';
+
+const fullName = (recruiter: Recruiter) =>
+  `${recruiter.first_name || ''} ${recruiter.last_name || ''}`.trim();
+
+// send-campaign skips invalid addresses, inferred ones verification hasn't
+// confirmed valid, and unsubscribed recruiters
+const isSendable = (recruiter: Recruiter) =>
+  !recruiter.unsubscribed_at &&
+  recruiter.email_status !== 'invalid' &&
+  (recruiter.email_source !== 'inferred' || recruiter.email_status === 'valid');
+
+const isRelevant = (recruiter: Recruiter) => recruiter.relevance_category !== 'other';
+
+const RecipientPicker = ({ companyIds, selected, onChange }: RecipientPickerProps) => {
+  const [recruiters, setRecruiters] = useState<Recruiter[]>([]);
+  const [lastContacted, setLastContacted] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState(ALL_STATUSES);
+  const [onlyRelevant, setOnlyRelevant] = useState(true);
+  const [hideContacted, setHideContacted] = useState(false);
+
+  useEffect(() => {
+    fetchRecruiters();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [companyIds.join(',')]);
+
+  const fetchRecruiters = async () => {
+    try {
+      setLoading(true);
+      const [{ data, error }, { data: contacted, error: contactedError }] = await Promise.all([
+        supabase
+          .from('recruiters')
+          .select(`
+            id, first_name, last_name, email, title, email_status,
+            email_source, unsubscribed_at, relevance_category,
+            companies (
+              name
+            )
+          `)
+          .in('company_id', companyIds)
+          .order('created_at', { ascending: false }),
+        supabase.rpc('recruiter_last_contacted'),
+      ]);
+
+      if (error) throw error;
+      if (contactedError) throw contactedError;
+      const rows = data || [];
+      setRecruiters(rows);
+      setLastContacted(new Map((contacted || []).map((row) => [row.recruiter_id, row.last_contacted_at])));
+      // Default to the contacts campaigns used to go to: valid, recruiting-relevant addresses
+      if (selected === null) {
+        onChange(rows.filter((row) => row.email_status === 'valid' && isRelevant(row) && isSendable(row)).map((row) => row.id));
+      }
+    } catch (error) {
+      console.error('Error fetching recipients:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedIds = new Set(selected || []);
+
+  const search = query.trim().toLowerCase();
+  const visibleRecruiters = recruiters.filter((recruiter) =>
+    (!onlyRelevant || isRelevant(recruiter)) &&
+    (!hideContacted || !lastContacted.has(recruiter.id)) &&
+    (statusFilter === ALL_STATUSES || (recruiter.email_status || 'unknown') === statusFilter) &&
+    (!search ||
+      [fullName(recruiter), recruiter.email, recruiter.title || '']
+        .some((value) => value.toLowerCase().includes(search)))
+  );
+  const selectableIds = visibleRecruiters.filter(isSendable).map((recruiter) => recruiter.id);
+
+  const toggle = (recruiterId: string, checked: boolean) => {
+    onChange(checked ? [...selectedIds, recruiterId] : [...selectedIds].filter((id) => id !== recruiterId));
+  };
+
+  const selectVisible = () => onChange([...new Set([...selectedIds, ...selectableIds])]);
+
+  const clearVisible = () => onChange([...selectedIds].filter((id) => !selectableIds.includes(id)));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (recruiters.length === 0) {
+    return (
+      <div className="text-center py-6 text-muted-foreground">
+        <Users className="h-10 w-10 mx-auto mb-2 opacity-50" />
+        <p>No recruiters saved for {companyIds.length > 1 ? "these companies" : "this company"} yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-col md:flex-row md:items-center gap-3">
+        <Input
+          className="md:w-64"
+          placeholder="Search name, email or title"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="md:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES}>Any status</SelectItem>
+            {EMAIL_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>{status}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Switch id="onlyRelevantRecipients" checked={onlyRelevant} onCheckedChange={setOnlyRelevant} />
+          <Label htmlFor="onlyRelevantRecipients" className="text-sm text-muted-foreground">
+            Recruiting contacts only
+          </Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="hideContactedRecipients" checked={hideContacted} onCheckedChange={setHideContacted} />
+          <Label htmlFor="hideContactedRecipients" className="text-sm text-muted-foreground">
+            Hide already contacted
+          </Label>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {selectedIds.size} of {recruiters.length} selected
+        </span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={selectVisible} disabled={selectableIds.length === 0}>
+            Select all shown
+          </Button>
+          <Button variant="outline" size="sm" onClick={clearVisible} disabled={selectableIds.length === 0}>
+            Clear shown
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10" />
+              <TableHead>Name</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Title</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Last Contacted</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRecruiters.map((recruiter) => {
+              const sendable = isSendable(recruiter);
+              const contactedAt = lastContacted.get(recruiter.id);
+              return (
+                <TableRow key={recruiter.id} className={sendable ? undefined : "opacity-60"}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.has(recruiter.id)}
+                      disabled={!sendable}
+                      onCheckedChange={(checked) => toggle(recruiter.id, checked === true)}
+                      aria-label={`Select ${recruiter.email}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <span className="font-medium">{fullName(recruiter) || '—'}</span>
+                    {recruiter.relevance_category && RELEVANCE_LABELS[recruiter.relevance_category] && (
+                      <Badge variant="secondary" className="ml-2">{RELEVANCE_LABELS[recruiter.relevance_category]}</Badge>
+                    )}
+                    {companyIds.length > 1 && (
+                      <div className="text-xs text-muted-foreground">{recruiter.companies?.name}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{recruiter.email}</TableCell>
+                  <TableCell>{recruiter.title || '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={getEmailStatusColor(recruiter.email_status)}>
+                      {recruiter.email_status || 'unknown'}
+                    </Badge>
+                    {recruiter.unsubscribed_at ? (
+                      <div className="text-xs text-muted-foreground">unsubscribed</div>
+                    ) : !sendable && recruiter.email_status !== 'invalid' && (
+                      <div className="text-xs text-muted-foreground">inferred, not verified</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {contactedAt ? new Date(contactedAt).toLocaleDateString() : '—'}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default RecipientPicker;
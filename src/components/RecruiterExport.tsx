@@ -0,0 +1,216 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { buildExport, EXPORT_FORMATS, type ExportFormat, type ExportRecruiter } from "@/lib/export";
+import { errorMessage } from "@/lib/errors";
+import { EMAIL_STATUSES } from "@/lib/recruiters";
+import { Download, Loader2 } from "lucide-react";
+
+interface Company {
+  id: string;
+  name: string;
+}
+
+interface RecruiterExportProps {
+  companies: Company[];
+  tags: string[];
+}
+
+const ALL = 'all';
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+// How long the blob URL outlives the click, so the browser has started the download
+const REVOKE_DELAY_MS = 60_000;
+
+const downloadFile = (contents: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+const RecruiterExport = ({ companies, tags }: RecruiterExportProps) => {
+  const [companyId, setCompanyId] = useState(ALL);
+  const [statuses, setStatuses] = useState<string[]>(EMAIL_STATUSES);
+  const [tag, setTag] = useState(ALL);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  // A tag that no longer exists falls back to every tag
+  useEffect(() => {
+    if (tag !== ALL && !tags.includes(tag)) setTag(ALL);
+  }, [tags, tag]);
+
+  const toggleStatus = (status: string, checked: boolean) => {
+    setStatuses(checked ? [...statuses, status] : statuses.filter((current) => current !== status));
+  };
+
+  const fetchRecruiters = async () => {
+    const recruiters: (Omit<ExportRecruiter, 'last_contacted_at'> & { id: string })[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let request = supabase
+        .from('recruiters')
+        .select(`
+          id, first_name, last_name, email, title, department, linkedin_url,
+          email_status, email_source, email_confidence, providers, tags, created_at,
+          companies (
+            name, domain, industry, size, location
+          )
+        `)
+        // id breaks ties, so pages neither repeat nor skip rows created together
+        .order('created_at')
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+      if (companyId !== ALL) request = request.eq('company_id', companyId);
+      if (tag !== ALL) request = request.contains('tags', [tag]);
+      // Rows without a status are treated as unknown
+      if (statuses.length < EMAIL_STATUSES.length) {
+        request = statuses.includes('unknown')
+          ? request.or(`email_status.in.(${statuses.join(',')}),email_status.is.null`)
+          : request.in('email_status', statuses);
+      }
+
+      const { data, error } = await request;
+      if (error) throw error;
+      recruiters.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) return recruiters;
+    }
+  };
+
+  const exportRecruiters = async () => {
+    setExporting(true);
+    try {
+      const recruiters = await fetchRecruiters();
+      if (recruiters.length === 0) {
+        toast({
+          title: "Nothing to Export",
+          description: "No recruiters match these filters",
+        });
+        return;
+      }
+
+      const { data: lastContacted, error } = await supabase.rpc('recruiter_last_contacted');
+      if (error) throw error;
+      const contactedAt = new Map((lastContacted || []).map((row) => [row.recruiter_id, row.last_contacted_at]));
+
+      const rows: ExportRecruiter[] = recruiters.map(({ id, ...recruiter }) => ({
+        ...recruiter,
+        last_contacted_at: contactedAt.get(id) ?? null,
+      }));
+      const { extension, mimeType } = EXPORT_FORMATS[format];
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(buildExport(format, rows), `scout-connect-${format}-${date}.${extension}`, mimeType);
+      toast({
+        title: "Export Ready",
+        description: `Exported ${rows.length} recruiters as ${EXPORT_FORMATS[format].label}`,
+      });
+    } catch (error: unknown) {
+      console.error('Error exporting recruiters:', error);
+      toast({
+        title: "Export Failed",
+        description: errorMessage(error, "Failed to export recruiters"),
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Download className="h-4 w-4 text-primary" />
+          Export Recruiters
+        </CardTitle>
+        <CardDescription>
+          Download recruiters with where their addresses came from and when they were last emailed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Company</Label>
+            <Select value={companyId} onValueChange={setCompanyId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All companies</SelectItem>
+                {companies.map((company) => (
+                  <SelectItem key={company.id} value={company.id}>
+                    {company.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Tag</Label>
+            <Select value={tag} onValueChange={setTag}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any tag</SelectItem>
+                {tags.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {EXPORT_FORMATS[key].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Email Status</Label>
+          <div className="flex flex-wrap gap-4">
+            {EMAIL_STATUSES.map((status) => (
+              <div key={status} className="flex items-center gap-2">
+                <Checkbox
+                  id={`exportStatus-${status}`}
+                  checked={statuses.includes(status)}
+                  onCheckedChange={(checked) => toggleStatus(status, checked === true)}
+                />
+                <Label htmlFor={`exportStatus-${status}`} className="text-sm font-normal">
+                  {status}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+        <Button onClick={exportRecruiters} disabled={exporting || statuses.length === 0}>
+          {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Export
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RecruiterExport;
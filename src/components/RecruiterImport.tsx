@@ -0,0 +1,516 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { parseCsv } from "@/lib/csv";
+import { readXlsx } from "@/lib/xlsx";
+import { errorMessage } from "@/lib/errors";
+import { EMAIL_STATUSES } from "@/lib/recruiters";
+import { Upload, FileSpreadsheet, Eye, Loader2 } from "lucide-react";
+
+type ImportField =
+  | 'email'
+  | 'first_name'
+  | 'last_name'
+  | 'full_name'
+  | 'title'
+  | 'department'
+  | 'linkedin_url'
+  | 'email_status'
+  | 'company_domain'
+  | 'company_name';
+
+// Target fields with the header names they are guessed from
+const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'email', label: "Email *", aliases: ['email', 'email address', 'e-mail', 'work email'] },
+  { field: 'first_name', label: "First Name", aliases: ['first name', 'first', 'given name', 'firstname'] },
+  { field: 'last_name', label: "Last Name", aliases: ['last name', 'last', 'surname', 'family name', 'lastname'] },
+  { field: 'full_name', label: "Full Name", aliases: ['name', 'full name', 'contact', 'contact name'] },
+  { field: 'title', label: "Title", aliases: ['title', 'job title', 'position', 'role'] },
+  { field: 'department', label: "Department", aliases: ['department', 'team'] },
+  { field: 'linkedin_url', label: "LinkedIn URL", aliases: ['linkedin', 'linkedin url', 'linkedin profile'] },
+  { field: 'email_status', label: "Email Status", aliases: ['email status', 'status'] },
+  { field: 'company_domain', label: "Company Domain", aliases: ['domain', 'company domain', 'website', 'url'] },
+  { field: 'company_name', label: "Company Name", aliases: ['company', 'company name', 'organization', 'employer'] },
+];
+
+type ColumnMapping = Record<ImportField, number>;
+
+// Select items can't have an empty value
+const UNMAPPED = '__none';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/;
+
+// Keeps IN (...) lists and insert bodies well inside PostgREST request limits
+const CHUNK_SIZE = 100;
+
+// Most preview rows rendered; the counts always cover the whole file
+const PREVIEW_LIMIT = 200;
+
+type PreviewStatus = 'new' | 'duplicate' | 'duplicate_in_file' | 'error';
+
+interface PreviewRow {
+  // Row number in the file, counting the header as 1 and skipping blank lines
+  line: number;
+  status: PreviewStatus;
+  error?: string;
+  email: string;
+  domain: string;
+  companyName: string;
+  // Set when the domain matches a company that's already saved
+  companyId?: string;
+  values: {
+    first_name: string | null;
+    last_name: string | null;
+    title: string | null;
+    department: string | null;
+    linkedin_url: string | null;
+    email_status: string;
+  };
+}
+
+interface RecruiterImportProps {
+  onImported: () => void;
+}
+
+const chunk = <T,>(items: T[]) =>
+  Array.from({ length: Math.ceil(items.length / CHUNK_SIZE) }, (_, index) =>
+    items.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE)
+  );
+
+const normalizeDomain = (value: string) =>
+  value.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').split(/[/?#]/)[0];
+
+// "acme-corp.com" becomes "Acme-corp" when the file has no company name
+const companyNameFromDomain = (domain: string) => {
+  const label = domain.split('.')[0];
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+const guessMapping = (header: string[]): ColumnMapping => {
+  const normalized = header.map((cell) => cell.trim().toLowerCase().replace(/[_-]+/g, ' '));
+  const claimed = new Set<number>();
+  return Object.fromEntries(
+    IMPORT_FIELDS.map(({ field, aliases }) => {
+      const index = normalized.findIndex((cell, column) => !claimed.has(column) && aliases.includes(cell));
+      if (index >= 0) claimed.add(index);
+      return [field, index];
+    })
+  ) as ColumnMapping;
+};
+
+const statusLabel: Record<PreviewStatus, string> = {
+  new: "new",
+  duplicate: "already saved",
+  duplicate_in_file: "repeated in file",
+  error: "error",
+};
+
+const RecruiterImport = ({ onImported }: RecruiterImportProps) => {
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [preview, setPreview] = useState<PreviewRow[] | null>(null);
+  const [onlyProblems, setOnlyProblems] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
+
+  const header = rows[0] || [];
+
+  const handleFile = async (file: File) => {
+    try {
+      const parsed = /\.xlsx$/i.test(file.name)
+        ? await readXlsx(await file.arrayBuffer())
+        : parseCsv(await file.text());
+      if (parsed.length < 2) throw new Error("The file needs a header row and at least one contact");
+      setFileName(file.name);
+      setRows(parsed);
+      setMapping(guessMapping(parsed[0]));
+      setPreview(null);
+    } catch (error: unknown) {
+      console.error('Error reading import file:', error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to read the file"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === UNMAPPED ? -1 : Number(value) });
+    setPreview(null);
+  };
+
+  // Validates every row, then looks up which companies and (company, email)
+  // pairs already exist so duplicates are reported before anything is written
+  const buildPreview = async () => {
+    if (!mapping) return;
+    if (mapping.email < 0) {
+      toast({
+        title: "Error",
+        description: "Map a column to Email first",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPreviewing(true);
+    try {
+      const cell = (cells: string[], field: ImportField) =>
+        mapping[field] >= 0 ? (cells[mapping[field]] || '').trim() : '';
+
+      const seen = new Set<string>();
+      const previewRows = rows.slice(1).map((cells, index): PreviewRow => {
+        const email = cell(cells, 'email').toLowerCase();
+        const domain = normalizeDomain(cell(cells, 'company_domain')) || email.split('@')[1] || '';
+        let firstName = cell(cells, 'first_name');
+        let lastName = cell(cells, 'last_name');
+        const fullName = cell(cells, 'full_name');
+        if (!firstName && !lastName && fullName) {
+          const [first, ...rest] = fullName.split(/\s+/);
+          firstName = first;
+          lastName = rest.join(' ');
+        }
+        const emailStatus = cell(cells, 'email_status').toLowerCase() || 'unknown';
+        const row: PreviewRow = {
+          line: index + 2,
+          status: 'new',
+          email,
+          domain,
+          companyName: cell(cells, 'company_name') || companyNameFromDomain(domain),
+          values: {
+            first_name: firstName || null,
+            last_name: lastName || null,
+            title: cell(cells, 'title') || null,
+            department: cell(cells, 'department') || null,
+            linkedin_url: cell(cells, 'linkedin_url') || null,
+            email_status: emailStatus,
+          },
+        };
+
+        const error = !email
+          ? "Missing email"
+          : !EMAIL_PATTERN.test(email)
+            ? `"${email}" is not a valid email`
+            : !DOMAIN_PATTERN.test(domain)
+              ? `"${domain}" is not a valid company domain`
+              : !EMAIL_STATUSES.includes(emailStatus)
+                ? `Unknown email status "${emailStatus}"`
+                : null;
+        if (error) return { ...row, status: 'error', error };
+
+        const key = `${domain}|${email}`;
+        if (seen.has(key)) return { ...row, status: 'duplicate_in_file' };
+        seen.add(key);
+        return row;
+      });
+
+      const valid = previewRows.filter((row) => row.status === 'new');
+      const companiesByDomain = new Map<string, { id: string; name: string }>();
+      for (const domains of chunk([...new Set(valid.map((row) => row.domain))])) {
+        const { data, error } = await supabase
+          .from('companies')
+          .select('id, name, domain')
+          .in('domain', domains)
+          .order('created_at');
+        if (error) throw error;
+        (data || []).forEach((company) => {
+          if (company.domain && !companiesByDomain.has(company.domain)) companiesByDomain.set(company.domain, company);
+        });
+      }
+
+      const existingPairs = new Set<string>();
+      const companyIds = [...new Set([...companiesByDomain.values()].map((company) => company.id))];
+      const emails = [...new Set(valid.filter((row) => companiesByDomain.has(row.domain)).map((row) => row.email))];
+      if (companyIds.length > 0) {
+        // Compared lowercased on both sides, since stored addresses keep their case
+        for (const emailChunk of chunk(emails)) {
+          const { data, error } = await supabase.rpc('existing_recruiter_emails', {
+            p_company_ids: companyIds,
+            p_emails: emailChunk,
+          });
+          if (error) throw error;
+          (data || []).forEach((recruiter) => existingPairs.add(`${recruiter.company_id}|${recruiter.email}`));
+        }
+      }
+
+      setPreview(
+        previewRows.map((row) => {
+          const company = companiesByDomain.get(row.domain);
+          if (!company || row.status !== 'new') return row;
+          return {
+            ...row,
+            companyId: company.id,
+            companyName: company.name,
+            status: existingPairs.has(`${company.id}|${row.email}`) ? 'duplicate' : 'new',
+          };
+        })
+      );
+    } catch (error: unknown) {
+      console.error('Error previewing import:', error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to preview the import"),
+        variant: "destructive",
+      });
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  // Creates the companies that don't exist yet, then inserts the new contacts.
+  // Rows that turn out to be saved in the meantime are skipped by the upsert.
+  const commitImport = async () => {
+    if (!preview) return;
+    const toImport = preview.filter((row) => row.status === 'new');
+    if (toImport.length === 0) return;
+
+    setImporting(true);
+    try {
+      const companyIds = new Map(
+        toImport.flatMap((row) => (row.companyId ? [[row.domain, row.companyId] as const] : []))
+      );
+      const missingCompanies = new Map<string, string>();
+      toImport.forEach((row) => {
+        if (!companyIds.has(row.domain) && !missingCompanies.has(row.domain))
+          missingCompanies.set(row.domain, row.companyName);
+      });
+      if (missingCompanies.size > 0) {
+        const { data, error } = await supabase
+          .from('companies')
+          .insert([...missingCompanies].map(([domain, name]) => ({ name, domain })))
+          .select('id, domain');
+        if (error) throw error;
+        (data || []).forEach((company) => company.domain && companyIds.set(company.domain, company.id));
+      }
+
+      const records = toImport.map((row) => ({
+        line: row.line,
+        record: {
+          company_id: companyIds.get(row.domain)!,
+          email: row.email,
+          ...row.values,
+          email_source: 'import',
+        },
+      }));
+
+      let imported = 0;
+      const failed: { line: number; error: string }[] = [];
+      const insert = (batch: typeof records) =>
+        supabase
+          .from('recruiters')
+          .upsert(batch.map(({ record }) => record), { onConflict: 'company_id,email', ignoreDuplicates: true })
+          .select('id');
+
+      for (const batch of chunk(records)) {
+        const { data, error } = await insert(batch);
+        if (!error) {
+          imported += data?.length ?? 0;
+          continue;
+        }
+        // One bad row shouldn't lose the rest of the chunk
+        for (const entry of batch) {
+          const { data: single, error: rowError } = await insert([entry]);
+          if (rowError) failed.push({ line: entry.line, error: rowError.message });
+          else imported += single?.length ?? 0;
+        }
+      }
+
+      const failedLines = new Map(failed.map((failure) => [failure.line, failure.error]));
+      setPreview(
+        preview.map((row) =>
+          failedLines.has(row.line) ? { ...row, status: 'error', error: failedLines.get(row.line) } : row
+        )
+      );
+      toast({
+        title: failed.length > 0 ? "Import Finished With Errors" : "Import Complete",
+        description: `Imported ${imported} recruiters${
+          missingCompanies.size > 0 ? ` and created ${missingCompanies.size} companies` : ''
+        }${failed.length > 0 ? `; ${failed.length} rows failed` : ''}`,
+        variant: failed.length > 0 ? "destructive" : "default",
+      });
+      onImported();
+      if (failed.length === 0) {
+        setRows([]);
+        setMapping(null);
+        setPreview(null);
+        setFileName("");
+      }
+    } catch (error: unknown) {
+      console.error('Error importing recruiters:', error);
+      toast({
+        title: "Import Failed",
+        description: errorMessage(error, "Failed to import recruiters"),
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const counts = (preview || []).reduce(
+    (totals, row) => ({ ...totals, [row.status]: totals[row.status] + 1 }),
+    { new: 0, duplicate: 0, duplicate_in_file: 0, error: 0 } as Record<PreviewStatus, number>
+  );
+  const newCompanies = new Set(
+    (preview || []).filter((row) => row.status === 'new' && !row.companyId).map((row) => row.domain)
+  ).size;
+  const visibleRows = (preview || []).filter((row) => !onlyProblems || row.status !== 'new');
+
+  const getStatusColor = (status: PreviewStatus) => {
+    switch (status) {
+      case 'new': return 'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-950 dark:text-emerald-300 dark:border-emerald-800';
+      case 'duplicate':
+      case 'duplicate_in_file': return 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-300 dark:border-amber-800';
+      case 'error': return 'bg-red-50 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-300 dark:border-red-800';
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <FileSpreadsheet className="h-4 w-4 text-primary" />
+          Import Recruiters
+        </CardTitle>
+        <CardDescription>
+          Load a CSV or XLSX export, map its columns, and review duplicates and errors before importing.
+          Companies are matched by domain, or by the email's domain when there's no domain column.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Label
+            htmlFor="importFile"
+            className="inline-flex items-center gap-2 text-sm text-muted-foreground cursor-pointer hover:text-foreground"
+          >
+            <Upload className="h-4 w-4" />
+            {fileName ? `${fileName} (${rows.length - 1} rows)` : "Choose a CSV or XLSX file"}
+          </Label>
+          <input
+            id="importFile"
+            type="file"
+            accept=".csv,.txt,.xlsx,text/csv,text/plain,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files?.[0]) handleFile(e.target.files[0]);
+              e.target.value = "";
+            }}
+          />
+        </div>
+
+        {/* Column Mapping */}
+        {mapping && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {IMPORT_FIELDS.map(({ field, label }) => (
+              <div key={field} className="space-y-2">
+                <Label>{label}</Label>
+                <Select
+                  value={mapping[field] >= 0 ? String(mapping[field]) : UNMAPPED}
+                  onValueChange={(value) => updateMapping(field, value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not in file</SelectItem>
+                    {header.map((column, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {column || `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {mapping && (
+          <Button variant="outline" onClick={buildPreview} disabled={previewing || importing}>
+            {previewing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+            Preview Import
+          </Button>
+        )}
+
+        {/* Preview */}
+        {preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline" className={getStatusColor('new')}>{counts.new} new</Badge>
+              <Badge variant="outline" className={getStatusColor('duplicate')}>{counts.duplicate} already saved</Badge>
+              <Badge variant="outline" className={getStatusColor('duplicate_in_file')}>{counts.duplicate_in_file} repeated in file</Badge>
+              <Badge variant="outline" className={getStatusColor('error')}>{counts.error} errors</Badge>
+              {newCompanies > 0 && <Badge variant="secondary">{newCompanies} companies will be created</Badge>}
+              <div className="flex items-center gap-2 ml-auto">
+                <Switch id="onlyProblems" checked={onlyProblems} onCheckedChange={setOnlyProblems} />
+                <Label htmlFor="onlyProblems" className="text-sm text-muted-foreground">
+                  Only rows that won't be imported
+                </Label>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Company</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.slice(0, PREVIEW_LIMIT).map((row) => (
+                  <TableRow key={row.line}>
+                    <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                    <TableCell className="text-sm">{row.email || '—'}</TableCell>
+                    <TableCell>
+                      {`${row.values.first_name || ''} ${row.values.last_name || ''}`.trim() || '—'}
+                      {row.values.title && <div className="text-xs text-muted-foreground">{row.values.title}</div>}
+                    </TableCell>
+                    <TableCell>
+                      {row.companyName}
+                      <div className="text-xs text-muted-foreground">
+                        {row.domain}
+                        {row.status === 'new' && !row.companyId && ' · new company'}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={getStatusColor(row.status)}>
+                        {statusLabel[row.status]}
+                      </Badge>
+                      {row.error && <div className="text-xs text-red-600 mt-1">{row.error}</div>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {visibleRows.length > PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {PREVIEW_LIMIT} of {visibleRows.length} rows.
+              </p>
+            )}
+
+            <Button onClick={commitImport} disabled={importing || counts.new === 0}>
+              {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Import {counts.new} Recruiters
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RecruiterImport;
@@ -0,0 +1,654 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import RecruiterImport from "@/components/RecruiterImport";
+import RecruiterExport from "@/components/RecruiterExport";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { errorMessage } from "@/lib/errors";
+import { EMAIL_STATUSES, getEmailStatusColor } from "@/lib/recruiters";
+import { Plus, Pencil, Save, X, Trash2, Loader2, Users, Linkedin, FileSpreadsheet, Download } from "lucide-react";
+
+interface Company {
+  id: string;
+  name: string;
+  domain: string;
+}
+
+interface Recruiter {
+  id: string;
+  company_id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string;
+  title: string | null;
+  department: string | null;
+  linkedin_url: string | null;
+  email_status: string | null;
+  email_source: string;
+  tags: string[];
+  companies: { name: string } | null;
+}
+
+// The fields that can be edited by hand; tags are edited as a comma-separated list
+type RecruiterDraft = Record<'first_name' | 'last_name' | 'title' | 'department' | 'linkedin_url' | 'tags', string>;
+
+const ALL_COMPANIES = 'all';
+const ANY_TAG = 'any';
+
+// Most rows loaded at once when no company is picked
+const RECRUITER_LIMIT = 500;
+
+// Names older provider adapters stored when a provider returned none
+const PLACEHOLDER_NAMES = ['contact person', 'hr contact'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const fullName = (recruiter: Pick<Recruiter, 'first_name' | 'last_name'>) =>
+  `${recruiter.first_name || ''} ${recruiter.last_name || ''}`.trim();
+
+const needsName = (recruiter: Recruiter) => {
+  const name = fullName(recruiter).toLowerCase();
+  return !name || PLACEHOLDER_NAMES.includes(name);
+};
+
+const toDraft = (recruiter: Recruiter): RecruiterDraft => ({
+  first_name: recruiter.first_name ?? "",
+  last_name: recruiter.last_name ?? "",
+  title: recruiter.title ?? "",
+  department: recruiter.department ?? "",
+  linkedin_url: recruiter.linkedin_url ?? "",
+  tags: recruiter.tags.join(", "),
+});
+
+const emptyDraft: RecruiterDraft = { first_name: "", last_name: "", title: "", department: "", linkedin_url: "", tags: "" };
+
+// Empty fields are stored as NULL rather than ""; tags are trimmed, lowercased and deduplicated
+const fromDraft = ({ tags, ...fields }: RecruiterDraft) => ({
+  ...(Object.fromEntries(
+    Object.entries(fields).map(([field, value]) => [field, value.trim() || null])
+  ) as Record<Exclude<keyof RecruiterDraft, 'tags'>, string | null>),
+  tags: [...new Set(tags.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean))],
+});
+
+// Postgres reports a UNIQUE(company_id, email) violation as 23505
+const isDuplicateError = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505';
+
+const RecruiterManager = () => {
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [recruiters, setRecruiters] = useState<Recruiter[]>([]);
+  const [companyFilter, setCompanyFilter] = useState(ALL_COMPANIES);
+  const [query, setQuery] = useState("");
+  const [onlyNeedsName, setOnlyNeedsName] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<RecruiterDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagFilter, setTagFilter] = useState(ANY_TAG);
+  const [newCompanyId, setNewCompanyId] = useState("");
+  const [newEmail, setNewEmail] = useState("");
+  const [newStatus, setNewStatus] = useState("unknown");
+  const [newDraft, setNewDraft] = useState<RecruiterDraft>(emptyDraft);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchCompanies();
+    fetchTags();
+  }, []);
+
+  useEffect(() => {
+    fetchRecruiters();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [companyFilter]);
+
+  const fetchCompanies = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('companies')
+        .select('id, name, domain')
+        .order('name');
+
+      if (error) throw error;
+      setCompanies(data || []);
+    } catch (error) {
+      console.error('Error fetching companies:', error);
+    }
+  };
+
+  const fetchTags = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('recruiters')
+        .select('tags')
+        .not('tags', 'eq', '{}');
+
+      if (error) throw error;
+      setTags([...new Set((data || []).flatMap((row) => row.tags))].sort());
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+    }
+  };
+
+  const fetchRecruiters = async () => {
+    try {
+      setLoading(true);
+      let request = supabase
+        .from('recruiters')
+        .select(`
+          id, company_id, first_name, last_name, email, title, department,
+          linkedin_url, email_status, email_source, tags,
+          companies (
+            name
+          )
+        `)
+        .order('created_at', { ascending: false })
+        .limit(RECRUITER_LIMIT);
+      if (companyFilter !== ALL_COMPANIES) request = request.eq('company_id', companyFilter);
+
+      const { data, error } = await request;
+
+      if (error) throw error;
+      setRecruiters(data || []);
+    } catch (error) {
+      console.error('Error fetching recruiters:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const companyName = (companyId: string) =>
+    companies.find((company) => company.id === companyId)?.name || "this company";
+
+  const addRecruiter = async () => {
+    const email = newEmail.trim().toLowerCase();
+    if (!newCompanyId || !EMAIL_PATTERN.test(email)) {
+      toast({
+        title: "Error",
+        description: "Pick a company and enter a valid email address",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('recruiters')
+        .insert({
+          company_id: newCompanyId,
+          email,
+          ...fromDraft(newDraft),
+          email_status: newStatus,
+          email_status_manual: newStatus !== 'unknown',
+          email_source: 'manual',
+        })
+        .select(`
+          id, company_id, first_name, last_name, email, title, department,
+          linkedin_url, email_status, email_source, tags,
+          companies (
+            name
+          )
+        `)
+        .single();
+
+      if (error) throw error;
+
+      if (companyFilter === ALL_COMPANIES || companyFilter === newCompanyId) {
+        setRecruiters([data, ...recruiters]);
+      }
+      setNewEmail("");
+      setNewDraft(emptyDraft);
+      setNewStatus("unknown");
+      setShowAddForm(false);
+      fetchTags();
+      toast({
+        title: "Recruiter Added",
+        description: `${email} was added to ${companyName(newCompanyId)}`,
+      });
+    } catch (error: unknown) {
+      console.error('Error adding recruiter:', error);
+      toast({
+        title: "Error",
+        description: isDuplicateError(error)
+          ? `${email} is already saved for ${companyName(newCompanyId)}`
+          : errorMessage(error, "Failed to add recruiter"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = (recruiter: Recruiter) => {
+    setEditingId(recruiter.id);
+    setEditDraft(toDraft(recruiter));
+  };
+
+  const saveRecruiter = async (recruiter: Recruiter) => {
+    setSaving(true);
+    try {
+      const values = fromDraft(editDraft);
+      const { error } = await supabase
+        .from('recruiters')
+        .update(values)
+        .eq('id', recruiter.id);
+
+      if (error) throw error;
+
+      setRecruiters(recruiters.map((row) => (row.id === recruiter.id ? { ...row, ...values } : row)));
+      setEditingId(null);
+      fetchTags();
+      toast({
+        title: "Recruiter Saved",
+        description: `Updated ${fullName(values) || recruiter.email}`,
+      });
+    } catch (error: unknown) {
+      console.error('Error saving recruiter:', error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to save recruiter"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // A status set by hand is flagged as manual, so later verification runs keep it;
+  // "unknown" clears the flag and the verification so the next run checks the address again
+  const updateStatus = async (recruiter: Recruiter, status: string) => {
+    try {
+      const { error } = await supabase
+        .from('recruiters')
+        .update(
+          status === 'unknown'
+            ? { email_status: status, email_status_manual: false, email_verification: null, email_verified_at: null }
+            : {
+                email_status: status,
+                email_status_manual: true,
+                email_verification: { reasons: [`Marked ${status} by hand`] },
+                email_verified_at: new Date().toISOString(),
+              }
+        )
+        .eq('id', recruiter.id);
+
+      if (error) throw error;
+
+      setRecruiters(recruiters.map((row) => (row.id === recruiter.id ? { ...row, email_status: status } : row)));
+    } catch (error: unknown) {
+      console.error('Error updating email status:', error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to update email status"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteRecruiter = async (recruiter: Recruiter) => {
+    try {
+      const { error } = await supabase
+        .from('recruiters')
+        .delete()
+        .eq('id', recruiter.id);
+
+      if (error) throw error;
+
+      setRecruiters(recruiters.filter((row) => row.id !== recruiter.id));
+      toast({
+        title: "Recruiter Deleted",
+        description: `${recruiter.email} has been deleted`,
+      });
+    } catch (error: unknown) {
+      console.error('Error deleting recruiter:', error);
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to delete recruiter"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const search = query.trim().toLowerCase();
+  const visibleRecruiters = recruiters.filter(
+    (recruiter) =>
+      (!onlyNeedsName || needsName(recruiter)) &&
+      (tagFilter === ANY_TAG || recruiter.tags.includes(tagFilter)) &&
+      (!search ||
+        [fullName(recruiter), recruiter.email, recruiter.title || '']
+          .some((value) => value.toLowerCase().includes(search)))
+  );
+  const needsNameCount = recruiters.filter(needsName).length;
+
+  const draftInput = (
+    draft: RecruiterDraft,
+    setDraft: (draft: RecruiterDraft) => void,
+    field: keyof RecruiterDraft,
+    placeholder: string
+  ) => (
+    <Input
+      className="h-8"
+      placeholder={placeholder}
+      value={draft[field]}
+      onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+    />
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row gap-2">
+        {!showAddForm && (
+          <Button onClick={() => setShowAddForm(true)} className="w-full md:w-auto">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Recruiter
+          </Button>
+        )}
+        <Button variant="outline" onClick={() => setShowImport(!showImport)} className="w-full md:w-auto">
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          {showImport ? "Close Import" : "Import CSV / XLSX"}
+        </Button>
+        <Button variant="outline" onClick={() => setShowExport(!showExport)} className="w-full md:w-auto">
+          <Download className="mr-2 h-4 w-4" />
+          {showExport ? "Close Export" : "Export"}
+        </Button>
+      </div>
+
+      {showExport && <RecruiterExport companies={companies} tags={tags} />}
+
+      {showImport && (
+        <RecruiterImport
+          onImported={() => {
+            fetchCompanies();
+            fetchRecruiters();
+            fetchTags();
+          }}
+        />
+      )}
+
+      {/* Add Recruiter Form */}
+      {showAddForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Add a Recruiter</CardTitle>
+            <CardDescription>
+              Add a contact you found yourself. Each email can be saved once per company.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Company *</Label>
+                <Select value={newCompanyId} onValueChange={setNewCompanyId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a company" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {companies.map((company) => (
+                      <SelectItem key={company.id} value={company.id}>
+                        {company.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="newRecruiterEmail">Email *</Label>
+                <Input
+                  id="newRecruiterEmail"
+                  placeholder={`jane@${companies.find((company) => company.id === newCompanyId)?.domain || 'company.com'}`}
+                  value={newEmail}
+                  onChange={(e) => setNewEmail(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>First Name</Label>
+                {draftInput(newDraft, setNewDraft, 'first_name', 'Jane')}
+              </div>
+              <div className="space-y-2">
+                <Label>Last Name</Label>
+                {draftInput(newDraft, setNewDraft, 'last_name', 'Doe')}
+              </div>
+              <div className="space-y-2">
+                <Label>Title</Label>
+                {draftInput(newDraft, setNewDraft, 'title', 'e.g., Technical Recruiter')}
+              </div>
+              <div className="space-y-2">
+                <Label>Department</Label>
+                {draftInput(newDraft, setNewDraft, 'department', 'e.g., Talent Acquisition')}
+              </div>
+              <div className="space-y-2">
+                <Label>LinkedIn URL</Label>
+                {draftInput(newDraft, setNewDraft, 'linkedin_url', 'https://www.linkedin.com/in/...')}
+              </div>
+              <div className="space-y-2">
+                <Label>Tags</Label>
+                {draftInput(newDraft, setNewDraft, 'tags', 'e.g., career-fair, referral')}
+              </div>
+              <div className="space-y-2">
+                <Label>Email Status</Label>
+                <Select value={newStatus} onValueChange={setNewStatus}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EMAIL_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>{status}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={addRecruiter} disabled={saving || !newCompanyId || !newEmail.trim()}>
+                {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+                Add Recruiter
+              </Button>
+              <Button variant="outline" onClick={() => setShowAddForm(false)}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        <Select value={companyFilter} onValueChange={setCompanyFilter}>
+          <SelectTrigger className="md:w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_COMPANIES}>All companies</SelectItem>
+            {companies.map((company) => (
+              <SelectItem key={company.id} value={company.id}>
+                {company.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          className="md:w-64"
+          placeholder="Search name, email or title"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        {tags.length > 0 && (
+          <Select value={tagFilter} onValueChange={setTagFilter}>
+            <SelectTrigger className="md:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_TAG}>Any tag</SelectItem>
+              {tags.map((tag) => (
+                <SelectItem key={tag} value={tag}>
+                  {tag}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="flex items-center gap-2">
+          <Switch id="onlyNeedsName" checked={onlyNeedsName} onCheckedChange={setOnlyNeedsName} />
+          <Label htmlFor="onlyNeedsName" className="text-sm text-muted-foreground">
+            Missing or placeholder names ({needsNameCount})
+          </Label>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : visibleRecruiters.length === 0 ? (
+        <div className="text-center py-8">
+          <Users className="h-12 w-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+          <h3 className="text-lg font-medium mb-2">No Recruiters</h3>
+          <p className="text-muted-foreground">Search for a company or add a recruiter by hand.</p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Title</TableHead>
+              <TableHead>Department</TableHead>
+              <TableHead>LinkedIn</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRecruiters.map((recruiter) => {
+              const editing = editingId === recruiter.id;
+              return (
+                <TableRow key={recruiter.id}>
+                  <TableCell>
+                    {editing ? (
+                      <div className="space-y-1 min-w-48">
+                        <div className="flex gap-1">
+                          {draftInput(editDraft, setEditDraft, 'first_name', 'First')}
+                          {draftInput(editDraft, setEditDraft, 'last_name', 'Last')}
+                        </div>
+                        {draftInput(editDraft, setEditDraft, 'tags', 'Tags, comma separated')}
+                      </div>
+                    ) : (
+                      <div>
+                        <span className="font-medium">{fullName(recruiter) || '—'}</span>
+                        {needsName(recruiter) && (
+                          <Badge variant="outline" className="ml-2 bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-300 dark:border-amber-800">
+                            needs name
+                          </Badge>
+                        )}
+                        {(recruiter.email_source === 'manual' || recruiter.email_source === 'import') && (
+                          <Badge variant="secondary" className="ml-2">{recruiter.email_source}</Badge>
+                        )}
+                        <div className="text-xs text-muted-foreground">{recruiter.companies?.name}</div>
+                        {recruiter.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {recruiter.tags.map((tag) => (
+                              <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{recruiter.email}</TableCell>
+                  <TableCell>
+                    {editing ? draftInput(editDraft, setEditDraft, 'title', 'Title') : recruiter.title || '—'}
+                  </TableCell>
+                  <TableCell>
+                    {editing ? draftInput(editDraft, setEditDraft, 'department', 'Department') : recruiter.department || '—'}
+                  </TableCell>
+                  <TableCell>
+                    {editing ? (
+                      draftInput(editDraft, setEditDraft, 'linkedin_url', 'https://www.linkedin.com/in/...')
+                    ) : recruiter.linkedin_url ? (
+                      <a href={recruiter.linkedin_url} target="_blank" rel="noreferrer" className="text-primary">
+                        <Linkedin className="h-4 w-4" />
+                      </a>
+                    ) : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <Select value={recruiter.email_status || 'unknown'} onValueChange={(status) => updateStatus(recruiter, status)}>
+                      <SelectTrigger className={`h-8 w-28 ${getEmailStatusColor(recruiter.email_status)}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EMAIL_STATUSES.map((status) => (
+                          <SelectItem key={status} value={status}>{status}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      {editing ? (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => saveRecruiter(recruiter)} disabled={saving} title="Save">
+                            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} title="Cancel">
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <Button variant="ghost" size="sm" onClick={() => startEditing(recruiter)} title="Edit">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive" title="Delete">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {fullName(recruiter) || recruiter.email}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              This also deletes the emails logged for them. A later search may find and add them again.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => deleteRecruiter(recruiter)}>Delete</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default RecruiterManager;
@@ -0,0 +1,150 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { formatDistanceToNow } from "date-fns";
+import { History, FolderOpen, RotateCw } from "lucide-react";
+
+export interface SearchHistoryEntry {
+  id: string;
+  input: string;
+  status: string;
+  domain: string | null;
+  total_found: number;
+  relevant_count: number;
+  new_count: number;
+  added_recruiter_ids: string[];
+  missing_recruiter_ids: string[];
+  previous_search_id: string | null;
+  errors: string[];
+  duration_ms: number | null;
+  created_at: string;
+  companies: { name: string } | null;
+}
+
+interface SearchHistoryProps {
+  // Changes whenever a search finishes, so the list reloads
+  refreshKey: number;
+  onOpen: (searchId: string) => void;
+  onRerun: (entry: SearchHistoryEntry) => void;
+  disabled?: boolean;
+}
+
+const HISTORY_LIMIT = 20;
+
+const SearchHistory = ({ refreshKey, onOpen, onRerun, disabled }: SearchHistoryProps) => {
+  const [entries, setEntries] = useState<SearchHistoryEntry[]>([]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [refreshKey]);
+
+  const fetchHistory = async () => {
+    const { data, error } = await supabase
+      .from('searches')
+      .select(`
+        id, input, status, domain, total_found, relevant_count, new_count,
+        added_recruiter_ids, missing_recruiter_ids, previous_search_id,
+        errors, duration_ms, created_at,
+        companies (
+          name
+        )
+      `)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_LIMIT);
+
+    if (error) {
+      console.error('Error fetching search history:', error);
+      return;
+    }
+    setEntries(data || []);
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'completed': return 'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-950 dark:text-emerald-300 dark:border-emerald-800';
+      case 'ambiguous': return 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-300 dark:border-amber-800';
+      case 'failed': return 'bg-red-50 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-300 dark:border-red-800';
+      default: return 'bg-muted text-muted-foreground border-border';
+    }
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-4 w-4 text-primary" />
+          Recent Searches
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Search</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Contacts</TableHead>
+              <TableHead>Since Previous</TableHead>
+              <TableHead>When</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.id}>
+                <TableCell>
+                  <div className="font-medium">{entry.companies?.name || entry.input}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {entry.domain || entry.input}
+                    {entry.duration_ms != null && ` · ${(entry.duration_ms / 1000).toFixed(1)}s`}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={getStatusColor(entry.status)} title={entry.errors.join('\n') || undefined}>
+                    {entry.status}
+                    {entry.errors.length > 0 && ` · ${entry.errors.length} errors`}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  {entry.status === 'completed' ? `${entry.total_found} (${entry.relevant_count} relevant)` : '—'}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {entry.previous_search_id ? (
+                    <span>
+                      <span className="text-emerald-600">+{entry.added_recruiter_ids.length}</span>
+                      {' / '}
+                      <span className="text-red-600">−{entry.missing_recruiter_ids.length}</span>
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">first search</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    {entry.status === 'completed' && (
+                      <Button variant="ghost" size="sm" onClick={() => onOpen(entry.id)} disabled={disabled} title="Open results">
+                        <FolderOpen className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => onRerun(entry)} disabled={disabled} title="Run again">
+                      <RotateCw className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SearchHistory;
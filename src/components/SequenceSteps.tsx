@@ -0,0 +1,80 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { newFollowUp, type SequenceStepDraft } from "@/lib/sequence";
+import { Plus, Trash2 } from "lucide-react";
+
+interface SequenceStepsProps {
+  steps: SequenceStepDraft[];
+  onChange: (steps: SequenceStepDraft[]) => void;
+}
+
+const SequenceSteps = ({ steps, onChange }: SequenceStepsProps) => {
+  const update = (index: number, changes: Partial<SequenceStepDraft>) => {
+    onChange(steps.map((step, position) => (position === index ? { ...step, ...changes } : step)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {steps.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Replies aren't detected automatically. Mark a recipient as replied in the campaign's details to stop their follow-ups.
+        </p>
+      )}
+      {steps.map((step, index) => (
+        <div key={index} className="rounded-md border p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Step {index + 2}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(steps.filter((_, position) => position !== index))}
+              className="text-destructive hover:text-destructive"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span>Send</span>
+            <Input
+              type="number"
+              min={1}
+              className="w-20"
+              value={step.delay_days}
+              onChange={(e) => update(index, { delay_days: Math.max(1, Number(e.target.value) || 1) })}
+            />
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`followUpBusinessDays-${index}`}
+                checked={step.business_days}
+                onCheckedChange={(checked) => update(index, { business_days: checked })}
+              />
+              <Label htmlFor={`followUpBusinessDays-${index}`} className="font-normal">
+                {step.business_days ? "business days" : "days"}
+              </Label>
+            </div>
+            <span>after step {index + 1} unless marked as replied</span>
+          </div>
+          <Input
+            placeholder="Subject (leave blank to reply in the same thread)"
+            value={step.email_subject}
+            onChange={(e) => update(index, { email_subject: e.target.value })}
+          />
+          <Textarea
+            value={step.email_template}
+            onChange={(e) => update(index, { email_template: e.target.value })}
+            rows={6}
+          />
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...steps, newFollowUp()])}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Follow-up
+      </Button>
+    </div>
+  );
+};
+
+export default SequenceSteps;
@@ -14,11 +14,166 @@ export type Database = {
   }
   public: {
     Tables: {
+      campaign_recipients: {
+        Row: {
+          campaign_id: string
+          created_at: string
+          email_log_id: string | null
+          id: string
+          recruiter_id: string
+          status: string
+          stopped_at: string | null
+          stopped_reason: string | null
+          updated_at: string
+        }
+        Insert: {
+          campaign_id: string
+          created_at?: string
+          email_log_id?: string | null
+          id?: string
+          recruiter_id: string
+          status?: string
+          stopped_at?: string | null
+          stopped_reason?: string | null
+          updated_at?: string
+        }
+        Update: {
+          campaign_id?: string
+          created_at?: string
+          email_log_id?: string | null
+          id?: string
+          recruiter_id?: string
+          status?: string
+          stopped_at?: string | null
+          stopped_reason?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_recipients_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "email_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_recipients_email_log_id_fkey"
+            columns: ["email_log_id"]
+            isOneToOne: false
+            referencedRelation: "email_logs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "campaign_recipients_recruiter_id_fkey"
+            columns: ["recruiter_id"]
+            isOneToOne: false
+            referencedRelation: "recruiters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      campaign_steps: {
+        Row: {
+          business_days: boolean
+          campaign_id: string
+          created_at: string
+          delay_days: number
+          email_subject: string | null
+          email_template: string
+          id: string
+          step_number: number
+          updated_at: string
+        }
+        Insert: {
+          business_days?: boolean
+          campaign_id: string
+          created_at?: string
+          delay_days?: number
+          email_subject?: string | null
+          email_template: string
+          id?: string
+          step_number: number
+          updated_at?: string
+        }
+        Update: {
+          business_days?: boolean
+          campaign_id?: string
+          created_at?: string
+          delay_days?: number
+          email_subject?: string | null
+          email_template?: string
+          id?: string
+          step_number?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaign_steps_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "email_campaigns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      captured_emails: {
+        Row: {
+          campaign_id: string | null
+          created_at: string
+          email_log_id: string | null
+          from_address: string
+          headers: Json
+          html: string
+          id: string
+          subject: string
+          to_addresses: string[]
+        }
+        Insert: {
+          campaign_id?: string | null
+          created_at?: string
+          email_log_id?: string | null
+          from_address: string
+          headers?: Json
+          html: string
+          id?: string
+          subject: string
+          to_addresses: string[]
+        }
+        Update: {
+          campaign_id?: string | null
+          created_at?: string
+          email_log_id?: string | null
+          from_address?: string
+          headers?: Json
+          html?: string
+          id?: string
+          subject?: string
+          to_addresses?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "captured_emails_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "email_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "captured_emails_email_log_id_fkey"
+            columns: ["email_log_id"]
+            isOneToOne: false
+            referencedRelation: "email_logs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       companies: {
         Row: {
           apollo_company_id: string | null
           created_at: string
           domain: string | null
+          enriched_at: string | null
+          enrichment_source: string | null
           id: string
           industry: string | null
           location: string | null
@@ -30,6 +185,8 @@ export type Database = {
           apollo_company_id?: string | null
           created_at?: string
           domain?: string | null
+          enriched_at?: string | null
+          enrichment_source?: string | null
           id?: string
           industry?: string | null
           location?: string | null
@@ -41,6 +198,8 @@ export type Database = {
           apollo_company_id?: string | null
           created_at?: string
           domain?: string | null
+          enriched_at?: string | null
+          enrichment_source?: string | null
           id?: string
           industry?: string | null
           location?: string | null
@@ -62,6 +221,8 @@ export type Database = {
           emails_sent: number | null
           id: string
           position_title: string
+          scheduled_at: string | null
+          scheduled_timezone: string | null
           status: string | null
           total_emails: number | null
           updated_at: string
@@ -77,6 +238,8 @@ export type Database = {
           emails_sent?: number | null
           id?: string
           position_title: string
+          scheduled_at?: string | null
+          scheduled_timezone?: string | null
           status?: string | null
           total_emails?: number | null
           updated_at?: string
@@ -92,6 +255,8 @@ export type Database = {
           emails_sent?: number | null
           id?: string
           position_title?: string
+          scheduled_at?: string | null
+          scheduled_timezone?: string | null
           status?: string | null
           total_emails?: number | null
           updated_at?: string
@@ -108,6 +273,7 @@ export type Database = {
       }
       email_logs: {
         Row: {
+          attempts: number
           campaign_id: string
           clicked_at: string | null
           content: string
@@ -115,15 +281,23 @@ export type Database = {
           delivered_at: string | null
           email: string
           error_message: string | null
+          from_address: string | null
           id: string
+          locked_until: string | null
+          message_id: string | null
           opened_at: string | null
+          provider_message_id: string | null
           recruiter_id: string
+          send_after: string | null
           sent_at: string | null
           status: string | null
+          step_number: number
           subject: string
+          thread_references: string[]
           updated_at: string
         }
         Insert: {
+          attempts?: number
           campaign_id: string
           clicked_at?: string | null
           content: string
@@ -131,15 +305,23 @@ export type Database = {
           delivered_at?: string | null
           email: string
           error_message?: string | null
+          from_address?: string | null
           id?: string
+          locked_until?: string | null
+          message_id?: string | null
           opened_at?: string | null
+          provider_message_id?: string | null
           recruiter_id: string
+          send_after?: string | null
           sent_at?: string | null
           status?: string | null
+          step_number?: number
           subject: string
+          thread_references?: string[]
           updated_at?: string
         }
         Update: {
+          attempts?: number
           campaign_id?: string
           clicked_at?: string | null
           content?: string
@@ -147,12 +329,19 @@ export type Database = {
           delivered_at?: string | null
           email?: string
           error_message?: string | null
+          from_address?: string | null
           id?: string
+          locked_until?: string | null
+          message_id?: string | null
           opened_at?: string | null
+          provider_message_id?: string | null
           recruiter_id?: string
+          send_after?: string | null
           sent_at?: string | null
           status?: string | null
+          step_number?: number
           subject?: string
+          thread_references?: string[]
           updated_at?: string
         }
         Relationships: [
@@ -172,6 +361,140 @@ export type Database = {
           },
         ]
       }
+      provider_budgets: {
+        Row: {
+          created_at: string
+          daily_limit: number | null
+          monthly_limit: number | null
+          per_second_limit: number | null
+          provider: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          daily_limit?: number | null
+          monthly_limit?: number | null
+          per_second_limit?: number | null
+          provider: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          daily_limit?: number | null
+          monthly_limit?: number | null
+          per_second_limit?: number | null
+          provider?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      provider_cache: {
+        Row: {
+          created_at: string
+          domain: string
+          fetched_at: string
+          id: string
+          payload: Json
+          provider: string
+          query_key: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          domain: string
+          fetched_at?: string
+          id?: string
+          payload: Json
+          provider: string
+          query_key?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          domain?: string
+          fetched_at?: string
+          id?: string
+          payload?: Json
+          provider?: string
+          query_key?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      provider_usage: {
+        Row: {
+          created_at: string
+          credits_used: number
+          id: string
+          operation: string
+          provider: string
+          rate_limited: boolean
+          status_code: number | null
+        }
+        Insert: {
+          created_at?: string
+          credits_used?: number
+          id?: string
+          operation: string
+          provider: string
+          rate_limited?: boolean
+          status_code?: number | null
+        }
+        Update: {
+          created_at?: string
+          credits_used?: number
+          id?: string
+          operation?: string
+          provider?: string
+          rate_limited?: boolean
+          status_code?: number | null
+        }
+        Relationships: []
+      }
+      recruiter_sources: {
+        Row: {
+          confidence: number | null
+          created_at: string
+          email: string
+          id: string
+          last_seen_at: string
+          provider: string
+          raw_payload: Json | null
+          recruiter_id: string
+          updated_at: string
+        }
+        Insert: {
+          confidence?: number | null
+          created_at?: string
+          email: string
+          id?: string
+          last_seen_at?: string
+          provider: string
+          raw_payload?: Json | null
+          recruiter_id: string
+          updated_at?: string
+        }
+        Update: {
+          confidence?: number | null
+          created_at?: string
+          email?: string
+          id?: string
+          last_seen_at?: string
+          provider?: string
+          raw_payload?: Json | null
+          recruiter_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recruiter_sources_recruiter_id_fkey"
+            columns: ["recruiter_id"]
+            isOneToOne: false
+            referencedRelation: "recruiters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       recruiters: {
         Row: {
           apollo_contact_id: string | null
@@ -179,12 +502,23 @@ export type Database = {
           created_at: string
           department: string | null
           email: string
+          email_confidence: number | null
+          email_source: string
           email_status: string | null
+          email_status_manual: boolean
+          email_verification: Json | null
+          email_verified_at: string | null
+          field_sources: Json | null
           first_name: string | null
           id: string
           last_name: string | null
           linkedin_url: string | null
+          providers: string[]
+          relevance_category: string | null
+          relevance_score: number | null
+          tags: string[]
           title: string | null
+          unsubscribed_at: string | null
           updated_at: string
         }
         Insert: {
@@ -193,12 +527,23 @@ export type Database = {
           created_at?: string
           department?: string | null
           email: string
+          email_confidence?: number | null
+          email_source?: string
           email_status?: string | null
+          email_status_manual?: boolean
+          email_verification?: Json | null
+          email_verified_at?: string | null
+          field_sources?: Json | null
           first_name?: string | null
           id?: string
           last_name?: string | null
           linkedin_url?: string | null
+          providers?: string[]
+          relevance_category?: string | null
+          relevance_score?: number | null
+          tags?: string[]
           title?: string | null
+          unsubscribed_at?: string | null
           updated_at?: string
         }
         Update: {
@@ -207,12 +552,23 @@ export type Database = {
           created_at?: string
           department?: string | null
           email?: string
+          email_confidence?: number | null
+          email_source?: string
           email_status?: string | null
+          email_status_manual?: boolean
+          email_verification?: Json | null
+          email_verified_at?: string | null
+          field_sources?: Json | null
           first_name?: string | null
           id?: string
           last_name?: string | null
           linkedin_url?: string | null
+          providers?: string[]
+          relevance_category?: string | null
+          relevance_score?: number | null
+          tags?: string[]
           title?: string | null
+          unsubscribed_at?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -225,12 +581,132 @@ export type Database = {
           },
         ]
       }
+      searches: {
+        Row: {
+          added_recruiter_ids: string[]
+          company_id: string | null
+          created_at: string
+          domain: string | null
+          duration_ms: number | null
+          errors: string[]
+          id: string
+          input: string
+          missing_recruiter_ids: string[]
+          new_count: number
+          previous_search_id: string | null
+          providers: Json
+          recruiter_ids: string[]
+          relevant_count: number
+          status: string
+          total_found: number
+        }
+        Insert: {
+          added_recruiter_ids?: string[]
+          company_id?: string | null
+          created_at?: string
+          domain?: string | null
+          duration_ms?: number | null
+          errors?: string[]
+          id?: string
+          input: string
+          missing_recruiter_ids?: string[]
+          new_count?: number
+          previous_search_id?: string | null
+          providers?: Json
+          recruiter_ids?: string[]
+          relevant_count?: number
+          status: string
+          total_found?: number
+        }
+        Update: {
+          added_recruiter_ids?: string[]
+          company_id?: string | null
+          created_at?: string
+          domain?: string | null
+          duration_ms?: number | null
+          errors?: string[]
+          id?: string
+          input?: string
+          missing_recruiter_ids?: string[]
+          new_count?: number
+          previous_search_id?: string | null
+          providers?: Json
+          recruiter_ids?: string[]
+          relevant_count?: number
+          status?: string
+          total_found?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "searches_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "searches_previous_search_id_fkey"
+            columns: ["previous_search_id"]
+            isOneToOne: false
+            referencedRelation: "searches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      cancel_campaign: {
+        Args: {
+          p_campaign_id: string
+        }
+        Returns: boolean
+      }
+      claim_email_queue: {
+        Args: {
+          lease_seconds: number
+          per_day: number
+          per_minute: number
+          sender_daily_cap?: number
+        }
+        Returns: Database["public"]["Tables"]["email_logs"]["Row"][]
+      }
+      existing_recruiter_emails: {
+        Args: {
+          p_company_ids: string[]
+          p_emails: string[]
+        }
+        Returns: {
+          company_id: string
+          email: string
+        }[]
+      }
+      provider_usage_totals: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          credits_month: number
+          credits_today: number
+          provider: string
+          rate_limited_today: number
+        }[]
+      }
+      recruiter_last_contacted: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          last_contacted_at: string
+          recruiter_id: string
+        }[]
+      }
+      stop_sequence: {
+        Args: {
+          p_campaign_id: string
+          p_reason: string
+          p_recruiter_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
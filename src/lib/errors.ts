@@ -0,0 +1,7 @@
+// supabase-js returns PostgrestError and function errors as plain objects
+// rather than Error instances, so the message is read from any object that
+// carries one.
+export const errorMessage = (error: unknown, fallback: string): string =>
+  error && typeof error === "object" && "message" in error && typeof error.message === "string" && error.message
+    ? error.message
+    : fallback;
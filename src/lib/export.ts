@@ -0,0 +1,193 @@
+// File formats for exporting recruiters: a full CSV, a per-company summary,
+// vCard 3.0 for address books, and CSV layouts that HubSpot's contact import
+// and Salesforce's lead import wizard map without manual column matching.
+
+import { toCsv } from "@/lib/csv";
+
+export interface ExportRecruiter {
+  first_name: string | null;
+  last_name: string | null;
+  email: string;
+  title: string | null;
+  department: string | null;
+  linkedin_url: string | null;
+  email_status: string | null;
+  email_source: string;
+  email_confidence: number | null;
+  providers: string[];
+  tags: string[];
+  created_at: string;
+  last_contacted_at: string | null;
+  companies: {
+    name: string;
+    domain: string | null;
+    industry: string | null;
+    size: string | null;
+    location: string | null;
+  } | null;
+}
+
+export type ExportFormat = 'csv' | 'companies' | 'vcard' | 'hubspot' | 'salesforce';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: "CSV (all fields)", extension: "csv", mimeType: "text/csv" },
+  companies: { label: "Companies CSV", extension: "csv", mimeType: "text/csv" },
+  vcard: { label: "vCard (.vcf)", extension: "vcf", mimeType: "text/vcard" },
+  hubspot: { label: "HubSpot contacts CSV", extension: "csv", mimeType: "text/csv" },
+  salesforce: { label: "Salesforce leads CSV", extension: "csv", mimeType: "text/csv" },
+};
+
+// Where the address came from, e.g. "provider: Hunter.io, Apollo.io (92%)"
+const provenance = (recruiter: ExportRecruiter) => {
+  const providers = recruiter.providers.length > 0 ? `: ${recruiter.providers.join(', ')}` : '';
+  const confidence = recruiter.email_confidence != null ? ` (${recruiter.email_confidence}%)` : '';
+  return `${recruiter.email_source}${providers}${confidence}`;
+};
+
+const toFullCsv = (recruiters: ExportRecruiter[]) =>
+  toCsv([
+    [
+      'First Name', 'Last Name', 'Email', 'Email Status', 'Title', 'Department', 'LinkedIn URL',
+      'Company', 'Company Domain', 'Industry', 'Company Size', 'Location',
+      'Source', 'Providers', 'Email Confidence', 'Tags', 'Last Contacted', 'Added',
+    ],
+    ...recruiters.map((recruiter) => [
+      recruiter.first_name,
+      recruiter.last_name,
+      recruiter.email,
+      recruiter.email_status,
+      recruiter.title,
+      recruiter.department,
+      recruiter.linkedin_url,
+      recruiter.companies?.name,
+      recruiter.companies?.domain,
+      recruiter.companies?.industry,
+      recruiter.companies?.size,
+      recruiter.companies?.location,
+      recruiter.email_source,
+      recruiter.providers.join('; '),
+      recruiter.email_confidence,
+      recruiter.tags.join('; '),
+      recruiter.last_contacted_at,
+      recruiter.created_at,
+    ]),
+  ]);
+
+// One row per company of the exported recruiters
+const toCompaniesCsv = (recruiters: ExportRecruiter[]) => {
+  const companies = new Map<string, { company: NonNullable<ExportRecruiter['companies']>; recruiters: ExportRecruiter[] }>();
+  recruiters.forEach((recruiter) => {
+    if (!recruiter.companies) return;
+    const key = recruiter.companies.domain || recruiter.companies.name;
+    const entry = companies.get(key) || { company: recruiter.companies, recruiters: [] };
+    entry.recruiters.push(recruiter);
+    companies.set(key, entry);
+  });
+  return toCsv([
+    ['Company', 'Domain', 'Industry', 'Size', 'Location', 'Recruiters', 'Valid Emails', 'Last Contacted'],
+    ...[...companies.values()].map(({ company, recruiters: members }) => [
+      company.name,
+      company.domain,
+      company.industry,
+      company.size,
+      company.location,
+      members.length,
+      members.filter((recruiter) => recruiter.email_status === 'valid').length,
+      members
+        .map((recruiter) => recruiter.last_contacted_at)
+        .filter(Boolean)
+        .sort()
+        .pop(),
+    ]),
+  ]);
+};
+
+// Column names match HubSpot's default contact properties
+const toHubSpotCsv = (recruiters: ExportRecruiter[]) =>
+  toCsv([
+    ['Email', 'First Name', 'Last Name', 'Job Title', 'Company Name', 'Website URL', 'Industry', 'LinkedIn URL', 'Lead Source', 'Last Contacted', 'Tags'],
+    ...recruiters.map((recruiter) => [
+      recruiter.email,
+      recruiter.first_name,
+      recruiter.last_name,
+      recruiter.title,
+      recruiter.companies?.name,
+      recruiter.companies?.domain,
+      recruiter.companies?.industry,
+      recruiter.linkedin_url,
+      `Scout Connect (${provenance(recruiter)})`,
+      recruiter.last_contacted_at,
+      recruiter.tags.join('; '),
+    ]),
+  ]);
+
+// Salesforce requires Last Name and Company on leads
+const NOT_PROVIDED = '[not provided]';
+
+const toSalesforceCsv = (recruiters: ExportRecruiter[]) =>
+  toCsv([
+    ['First Name', 'Last Name', 'Email', 'Title', 'Company', 'Website', 'Industry', 'Lead Source', 'Description'],
+    ...recruiters.map((recruiter) => [
+      recruiter.first_name,
+      recruiter.last_name || NOT_PROVIDED,
+      recruiter.email,
+      recruiter.title,
+      recruiter.companies?.name || NOT_PROVIDED,
+      recruiter.companies?.domain,
+      recruiter.companies?.industry,
+      'Scout Connect',
+      [
+        `Source: ${provenance(recruiter)}`,
+        `Email status: ${recruiter.email_status || 'unknown'}`,
+        recruiter.department && `Department: ${recruiter.department}`,
+        recruiter.linkedin_url && `LinkedIn: ${recruiter.linkedin_url}`,
+        recruiter.last_contacted_at && `Last contacted: ${recruiter.last_contacted_at}`,
+        recruiter.tags.length > 0 && `Tags: ${recruiter.tags.join(', ')}`,
+      ].filter(Boolean).join('\n'),
+    ]),
+  ]);
+
+// vCard text values escape backslashes, commas, semicolons and newlines
+const escapeVCard = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/,/g, '\\,').replace(/;/g, '\\;').replace(/\r?\n/g, '\\n');
+
+// Content lines are folded at 75 characters, continuing with a leading space
+const foldLine = (line: string) => line.match(/.{1,74}/g)?.join('\r\n ') ?? line;
+
+const toVCard = (recruiters: ExportRecruiter[]) =>
+  recruiters
+    .map((recruiter) => {
+      const first = escapeVCard(recruiter.first_name || '');
+      const last = escapeVCard(recruiter.last_name || '');
+      const fullName = `${recruiter.first_name || ''} ${recruiter.last_name || ''}`.trim() || recruiter.email;
+      const note = [
+        `Source: ${provenance(recruiter)}`,
+        `Email status: ${recruiter.email_status || 'unknown'}`,
+        recruiter.last_contacted_at && `Last contacted: ${recruiter.last_contacted_at}`,
+      ].filter(Boolean).join('\n');
+      const lines = [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        `N:${last};${first};;;`,
+        `FN:${escapeVCard(fullName)}`,
+        recruiter.companies && `ORG:${escapeVCard(recruiter.companies.name)}${recruiter.department ? `;${escapeVCard(recruiter.department)}` : ''}`,
+        recruiter.title && `TITLE:${escapeVCard(recruiter.title)}`,
+        `EMAIL;TYPE=INTERNET,WORK:${recruiter.email}`,
+        recruiter.linkedin_url && `URL:${recruiter.linkedin_url}`,
+        recruiter.tags.length > 0 && `CATEGORIES:${recruiter.tags.map(escapeVCard).join(',')}`,
+        `NOTE:${escapeVCard(note)}`,
+        'END:VCARD',
+      ];
+      return lines.filter((line): line is string => !!line).map(foldLine).join('\r\n');
+    })
+    .join('\r\n') + '\r\n';
+
+export function buildExport(format: ExportFormat, recruiters: ExportRecruiter[]): string {
+  switch (format) {
+    case 'csv': return toFullCsv(recruiters);
+    case 'companies': return toCompaniesCsv(recruiters);
+    case 'vcard': return toVCard(recruiters);
+    case 'hubspot': return toHubSpotCsv(recruiters);
+    case 'salesforce': return toSalesforceCsv(recruiters);
+  }
+}
@@ -0,0 +1,21 @@
+// Email statuses and relevance categories as stored on recruiters, with how
+// the UI labels and colours them.
+
+export const EMAIL_STATUSES = ['valid', 'risky', 'invalid', 'unknown'];
+
+export const RELEVANCE_LABELS: Record<string, string> = {
+  recruiter: "Recruiter",
+  sourcer: "Sourcer",
+  ta_partner: "TA Partner",
+  hr: "HR",
+  hiring_manager: "Hiring Manager",
+};
+
+export const getEmailStatusColor = (status: string | null) => {
+  switch (status) {
+    case 'valid': return 'bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-950 dark:text-emerald-300 dark:border-emerald-800';
+    case 'risky': return 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-950 dark:text-amber-300 dark:border-amber-800';
+    case 'invalid': return 'bg-red-50 text-red-700 border-red-200 dark:bg-red-950 dark:text-red-300 dark:border-red-800';
+    default: return 'bg-muted text-muted-foreground border-border';
+  }
+};
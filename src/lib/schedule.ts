@@ -0,0 +1,84 @@
+// Converting between a wall-clock time in a chosen IANA timezone and a UTC
+// instant, for scheduling campaigns. Uses Intl only, so daylight saving
+// transitions follow the browser's timezone database.
+
+// Zones offered in the picker; the browser's own zone is added when missing
+const COMMON_TIMEZONES = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Berlin",
+  "Europe/Paris",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+];
+
+export const localTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+export const timezoneOptions = () => {
+  const local = localTimezone();
+  return COMMON_TIMEZONES.includes(local) ? COMMON_TIMEZONES : [local, ...COMMON_TIMEZONES];
+};
+
+// The zone's wall-clock parts for an instant, read back as if they were UTC
+const wallClockAsUtc = (instant: number, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(new Date(instant))
+      .map((part) => [part.type, part.value])
+  );
+  return Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+};
+
+// "2026-11-02T09:30" in timeZone -> ISO instant. Times skipped by a DST jump
+// land just after it.
+export function zonedTimeToIso(localDateTime: string, timeZone: string): string {
+  const [date, time = "00:00"] = localDateTime.split("T");
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Apply the zone's offset, then correct once in case the offset differs at
+  // the result. A skipped time never round-trips, so it keeps the first guess.
+  const guess = wallClock - (wallClockAsUtc(wallClock, timeZone) - wallClock);
+  const corrected = guess + (wallClock - wallClockAsUtc(guess, timeZone));
+  const instant = wallClockAsUtc(corrected, timeZone) === wallClock ? corrected : guess;
+  return new Date(instant).toISOString();
+}
+
+// ISO instant -> "2026-11-02T09:30" in timeZone, the value a datetime-local input takes
+export function isoToZonedTime(iso: string, timeZone: string): string {
+  return new Date(wallClockAsUtc(new Date(iso).getTime(), timeZone)).toISOString().slice(0, 16);
+}
+
+export function formatInTimezone(iso: string, timeZone: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    timeZone,
+    dateStyle: "medium",
+    timeStyle: "short",
+  }) + ` (${timeZone})`;
+}
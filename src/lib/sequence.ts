@@ -0,0 +1,33 @@
+// Follow-up steps of a campaign sequence as edited in CampaignManager. The
+// campaign's own subject and template are step 1; follow-ups are numbered
+// from 2 in list order.
+
+export interface SequenceStepDraft {
+  email_subject: string;
+  email_template: string;
+  delay_days: number;
+  business_days: boolean;
+}
+
+export const newFollowUp = (): SequenceStepDraft => ({
+  email_subject: "",
+  email_template: `Hi {recruiter_first_name},
+
+I wanted to follow up on my note below about {position_title} opportunities at {company_name}. I'd still love to connect if you have a few minutes.
+
+Best regards,
+[YOUR NAME]`,
+  delay_days: 3,
+  business_days: true,
+});
+
+// Rows for campaign_steps; a blank subject is stored as NULL so the follow-up replies in the thread
+export const toStepRows = (campaignId: string, steps: SequenceStepDraft[]) =>
+  steps.map((step, index) => ({
+    campaign_id: campaignId,
+    step_number: index + 2,
+    email_subject: step.email_subject.trim() || null,
+    email_template: step.email_template,
+    delay_days: step.delay_days,
+    business_days: step.business_days,
+  }));
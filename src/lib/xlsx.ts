@@ -0,0 +1,116 @@
+// Minimal XLSX reading: the first worksheet's cell values as rows of strings,
+// the same shape parseCsv returns. An .xlsx file is a zip of XML parts; entries
+// are inflated with the browser's DecompressionStream, so no library is needed.
+// Formulas come back as their cached values and dates as Excel serial numbers.
+
+const inflateRaw = async (data: Uint8Array) => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Reads the zip's central directory and returns a lazy reader per entry name
+const readZip = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // The end-of-central-directory record sits in the last 64 KiB (comment included)
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not an XLSX file");
+
+  const entries = new Map<string, () => Promise<Uint8Array>>();
+  const decoder = new TextDecoder();
+  let offset = view.getUint32(end + 16, true);
+  for (let count = view.getUint16(end + 10, true); count > 0; count--) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error("Corrupt XLSX file");
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, async () => {
+      // The local header repeats the name and may carry a different extra field
+      const start =
+        localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflateRaw(data);
+      throw new Error(`Unsupported compression in ${name}`);
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const columnIndex = (reference: string) => {
+  const letters = reference.replace(/[^A-Z]/gi, "").toUpperCase();
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+// Text of a string item, skipping phonetic runs
+const itemText = (item: Element) =>
+  Array.from(item.getElementsByTagName("t"))
+    .filter((t) => t.parentElement?.localName !== "rPh")
+    .map((t) => t.textContent || "")
+    .join("");
+
+export async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const entries = readZip(buffer);
+  const decoder = new TextDecoder();
+  const parser = new DOMParser();
+  const readXml = async (name: string) => {
+    const read = entries.get(name);
+    return read ? parser.parseFromString(decoder.decode(await read()), "application/xml") : null;
+  };
+
+  // The first sheet in workbook order, falling back to the conventional name
+  let sheetPath = "xl/worksheets/sheet1.xml";
+  const workbook = await readXml("xl/workbook.xml");
+  const relations = await readXml("xl/_rels/workbook.xml.rels");
+  const firstSheet = workbook?.getElementsByTagName("sheet")[0];
+  const relationId = firstSheet?.getAttribute("r:id");
+  const target = Array.from(relations?.getElementsByTagName("Relationship") || [])
+    .find((relation) => relation.getAttribute("Id") === relationId)
+    ?.getAttribute("Target");
+  if (target) sheetPath = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+
+  const sheet = await readXml(sheetPath);
+  if (!sheet) throw new Error("The workbook has no worksheet");
+  const sharedStrings = Array.from(
+    (await readXml("xl/sharedStrings.xml"))?.getElementsByTagName("si") || []
+  ).map(itemText);
+
+  const rows: string[][] = [];
+  for (const row of Array.from(sheet.getElementsByTagName("row"))) {
+    const cells: string[] = [];
+    Array.from(row.getElementsByTagName("c")).forEach((cell, position) => {
+      const reference = cell.getAttribute("r");
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute("t");
+      const value = cell.getElementsByTagName("v")[0]?.textContent ?? "";
+      let text: string;
+      if (type === "s") text = sharedStrings[Number(value)] ?? "";
+      else if (type === "inlineStr") text = itemText(cell);
+      else if (type === "b") text = value === "1" ? "TRUE" : "FALSE";
+      else text = value;
+      while (cells.length < index) cells.push("");
+      cells[index] = text;
+    });
+    rows.push(cells);
+  }
+
+  // Drop blank rows, as parseCsv does
+  return rows
+    .map((cells) => cells.map((cell) => cell.trim()))
+    .filter((cells) => cells.some((cell) => cell !== ""));
+}
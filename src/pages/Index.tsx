@@ -2,12 +2,21 @@ import { useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import CompanySearch from "@/components/CompanySearch";
+import BulkSearch from "@/components/BulkSearch";
 import CampaignManager from "@/components/CampaignManager";
 import Analytics from "@/components/Analytics";
-import { Search, Mail, BarChart3, Target } from "lucide-react";
+import ProviderQuota from "@/components/ProviderQuota";
+import RecruiterManager from "@/components/RecruiterManager";
+import { Search, Mail, BarChart3, Target, Settings, Users } from "lucide-react";
 
 const Index = () => {
   const [activeTab, setActiveTab] = useState("search");
+  const [campaignCompanyIds, setCampaignCompanyIds] = useState<string[]>([]);
+
+  const createCampaignsFor = (companyIds: string[]) => {
+    setCampaignCompanyIds(companyIds);
+    setActiveTab("campaigns");
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-secondary/20 to-background">
@@ -30,11 +39,15 @@ const Index = () => {
         {/* Main Interface */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <div className="flex justify-center mb-8">
-            <TabsList className="grid w-full max-w-md grid-cols-3 bg-card shadow-lg">
+            <TabsList className="grid w-full max-w-2xl grid-cols-5 bg-card shadow-lg">
               <TabsTrigger value="search" className="flex items-center gap-2">
                 <Search className="h-4 w-4" />
                 Search
               </TabsTrigger>
+              <TabsTrigger value="recruiters" className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Recruiters
+              </TabsTrigger>
               <TabsTrigger value="campaigns" className="flex items-center gap-2">
                 <Mail className="h-4 w-4" />
                 Campaigns
@@ -43,6 +56,10 @@ const Index = () => {
                 <BarChart3 className="h-4 w-4" />
                 Analytics
               </TabsTrigger>
+              <TabsTrigger value="settings" className="flex items-center gap-2">
+                <Settings className="h-4 w-4" />
+                Settings
+              </TabsTrigger>
             </TabsList>
           </div>
 
@@ -59,7 +76,36 @@ const Index = () => {
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <CompanySearch />
+                  <Tabs defaultValue="single">
+                    <TabsList className="mb-4">
+                      <TabsTrigger value="single">Single Company</TabsTrigger>
+                      <TabsTrigger value="bulk">Bulk Search</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="single">
+                      <CompanySearch />
+                    </TabsContent>
+                    {/* Kept mounted so a running bulk search survives switching tabs */}
+                    <TabsContent value="bulk" forceMount className="data-[state=inactive]:hidden">
+                      <BulkSearch onCreateCampaigns={createCampaignsFor} />
+                    </TabsContent>
+                  </Tabs>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="recruiters" className="space-y-6">
+              <Card className="shadow-elegant border-0">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Users className="h-5 w-5 text-primary" />
+                    Recruiters
+                  </CardTitle>
+                  <CardDescription>
+                    Add contacts by hand, fix names and titles, and correct email statuses
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <RecruiterManager />
                 </CardContent>
               </Card>
             </TabsContent>
@@ -76,7 +122,10 @@ const Index = () => {
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <CampaignManager />
+                  <CampaignManager
+                    prefillCompanyIds={campaignCompanyIds}
+                    onPrefillConsumed={() => setCampaignCompanyIds([])}
+                  />
                 </CardContent>
               </Card>
             </TabsContent>
@@ -97,6 +146,23 @@ const Index = () => {
                 </CardContent>
               </Card>
             </TabsContent>
+
+            <TabsContent value="settings" className="space-y-6">
+              <Card className="shadow-elegant border-0">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Settings className="h-5 w-5 text-primary" />
+                    Provider Quotas
+                  </CardTitle>
+                  <CardDescription>
+                    Credits used per provider and the budgets searches are held to
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ProviderQuota />
+                </CardContent>
+              </Card>
+            </TabsContent>
           </div>
         </Tabs>
       </div>
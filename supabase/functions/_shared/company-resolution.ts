@@ -0,0 +1,229 @@
+// Turns free-form search input ("Goldman Sachs", "https://www.stripe.com/jobs",
+// "careers.tesla.co.uk") into a company name and email domain.
+//
+// URLs and hostnames are normalized down to their registrable domain. Names are
+// looked up in the companies table and the bundled KNOWN_COMPANIES dataset;
+// when several companies match equally well the caller gets candidates to
+// choose from instead of a guess.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { KNOWN_COMPANIES } from "./known-companies.ts";
+
+export type ResolutionSource = "database" | "dataset" | "domain" | "guess";
+
+export interface CompanyCandidate {
+  name: string;
+  domain: string;
+  source: ResolutionSource;
+  score: number;
+  companyId?: string;
+}
+
+export type CompanyResolution =
+  | { status: "resolved"; company: CompanyCandidate; candidates: CompanyCandidate[] }
+  | { status: "ambiguous"; candidates: CompanyCandidate[] }
+  | { status: "unresolved" };
+
+// Public suffixes with more than one label. Anything not listed is treated as a
+// single-label TLD (.com, .io, .de, ...).
+const MULTI_PART_SUFFIXES = new Set([
+  "ac.uk", "co.uk", "gov.uk", "ltd.uk", "me.uk", "net.uk", "org.uk", "plc.uk",
+  "com.au", "edu.au", "gov.au", "net.au", "org.au",
+  "co.nz", "net.nz", "org.nz",
+  "co.jp", "ne.jp", "or.jp",
+  "co.in", "firm.in", "net.in", "org.in",
+  "co.kr", "or.kr",
+  "co.za", "org.za",
+  "co.il", "org.il",
+  "com.ar", "com.br", "com.cn", "com.co", "com.hk", "com.mx", "com.my",
+  "com.ph", "com.pl", "com.sg", "com.tr", "com.tw", "com.ua", "com.vn",
+  "net.br", "org.br",
+]);
+
+const DOMAIN_PATTERN = /^([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/;
+
+// Legal suffixes and filler words ignored when comparing company names
+const NAME_NOISE =
+  /\b(the|inc|incorporated|llc|ltd|limited|corp|corporation|co|company|plc|gmbh|ag|sa|group|holdings)\b/g;
+
+const AMBIGUITY_MARGIN = 10;
+
+export const normalizeCompanyName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9 ]+/g, " ")
+    .replace(NAME_NOISE, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Strips scheme, credentials, www., port, path, query and trailing dots.
+// Returns null when the input doesn't look like a hostname at all.
+export const normalizeHostname = (input: string): string | null => {
+  let value = input.trim().toLowerCase();
+  if (!value || /\s/.test(value)) return null;
+  value = value.replace(/^[a-z][a-z0-9+.-]*:\/\//, "");
+  value = value.replace(/^[^@/]*@/, "");
+  value = value.split(/[/?#]/)[0];
+  value = value.replace(/:\d+$/, "").replace(/\.+$/, "");
+  value = value.replace(/^www\d*\./, "");
+  return DOMAIN_PATTERN.test(value) ? value : null;
+};
+
+export const publicSuffixOf = (hostname: string) => {
+  const labels = hostname.split(".");
+  const lastTwo = labels.slice(-2).join(".");
+  return labels.length > 2 && MULTI_PART_SUFFIXES.has(lastTwo)
+    ? lastTwo
+    : labels[labels.length - 1];
+};
+
+// careers.tesla.co.uk -> tesla.co.uk, jobs.stripe.com -> stripe.com
+export const registrableDomain = (hostname: string) => {
+  const suffix = publicSuffixOf(hostname);
+  const labels = hostname.slice(0, -(suffix.length + 1)).split(".");
+  return `${labels[labels.length - 1]}.${suffix}`;
+};
+
+export const companyNameFromDomain = (domain: string) => {
+  const label = registrableDomain(domain).split(".")[0];
+  return label
+    .split("-")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(" ");
+};
+
+const scoreNameMatch = (query: string, name: string, aliases: string[] = []) => {
+  const normalizedQuery = normalizeCompanyName(query);
+  if (!normalizedQuery) return 0;
+  let best = 0;
+  [name, ...aliases].forEach((candidate) => {
+    const normalized = normalizeCompanyName(candidate);
+    if (!normalized) return;
+    if (normalized === normalizedQuery) best = Math.max(best, 100);
+    else if (
+      normalized.startsWith(`${normalizedQuery} `) ||
+      normalizedQuery.startsWith(`${normalized} `)
+    )
+      best = Math.max(best, 75);
+    else if (normalized.replace(/ /g, "") === normalizedQuery.replace(/ /g, ""))
+      best = Math.max(best, 90);
+  });
+  return best;
+};
+
+const mergeCandidates = (candidates: CompanyCandidate[]) => {
+  const byDomain = new Map<string, CompanyCandidate>();
+  candidates.forEach((candidate) => {
+    const existing = byDomain.get(candidate.domain);
+    // Stored companies win ties so their id and name are reused
+    if (
+      !existing ||
+      candidate.score > existing.score ||
+      (candidate.score === existing.score && candidate.source === "database")
+    )
+      byDomain.set(candidate.domain, {
+        ...candidate,
+        companyId: candidate.companyId ?? existing?.companyId,
+      });
+    else if (candidate.companyId && !existing.companyId)
+      existing.companyId = candidate.companyId;
+  });
+  return Array.from(byDomain.values()).sort((a, b) => b.score - a.score);
+};
+
+const resolveDomainInput = async (
+  supabase: SupabaseClient,
+  hostname: string
+): Promise<CompanyResolution> => {
+  const domain = registrableDomain(hostname);
+
+  const { data: stored } = await supabase
+    .from("companies")
+    .select("id, name, domain")
+    .eq("domain", domain)
+    .limit(1)
+    .maybeSingle();
+  if (stored) {
+    const company: CompanyCandidate = {
+      name: stored.name,
+      domain,
+      source: "database",
+      score: 100,
+      companyId: stored.id,
+    };
+    return { status: "resolved", company, candidates: [company] };
+  }
+
+  const known = KNOWN_COMPANIES.find((entry) => entry.domain === domain);
+  const company: CompanyCandidate = known
+    ? { name: known.name, domain, source: "dataset", score: 100 }
+    : { name: companyNameFromDomain(domain), domain, source: "domain", score: 100 };
+  return { status: "resolved", company, candidates: [company] };
+};
+
+const resolveNameInput = async (
+  supabase: SupabaseClient,
+  name: string
+): Promise<CompanyResolution> => {
+  const candidates: CompanyCandidate[] = [];
+
+  const firstWord = normalizeCompanyName(name).split(" ")[0] || name.trim();
+  const { data: stored } = await supabase
+    .from("companies")
+    .select("id, name, domain")
+    .ilike("name", `%${firstWord.replace(/[%_]/g, "")}%`)
+    .not("domain", "is", null)
+    .limit(20);
+  (stored || []).forEach((company) => {
+    const score = scoreNameMatch(name, company.name);
+    if (score > 0)
+      candidates.push({
+        name: company.name,
+        domain: company.domain,
+        source: "database",
+        score,
+        companyId: company.id,
+      });
+  });
+
+  KNOWN_COMPANIES.forEach((entry) => {
+    const score = scoreNameMatch(name, entry.name, entry.aliases);
+    if (score > 0)
+      candidates.push({
+        name: entry.name,
+        domain: entry.domain,
+        source: "dataset",
+        score,
+      });
+  });
+
+  const ranked = mergeCandidates(candidates);
+  if (ranked.length === 0) {
+    // Nothing known: fall back to the slug.com guess, flagged so the UI can say so
+    const slug =
+      normalizeCompanyName(name).replace(/ /g, "") ||
+      name.trim().toLowerCase().replace(/[^a-z0-9]/g, "");
+    // A name with no ASCII letters or digits gives nothing to guess from
+    if (!slug) return { status: "unresolved" };
+    const guess: CompanyCandidate = {
+      name: name.trim(),
+      domain: `${slug}.com`,
+      source: "guess",
+      score: 30,
+    };
+    return { status: "resolved", company: guess, candidates: [guess] };
+  }
+
+  const [best, runnerUp] = ranked;
+  if (runnerUp && best.score - runnerUp.score < AMBIGUITY_MARGIN)
+    return { status: "ambiguous", candidates: ranked };
+  return { status: "resolved", company: best, candidates: ranked };
+};
+
+export const resolveCompany = (supabase: SupabaseClient, input: string) => {
+  const hostname = normalizeHostname(input);
+  return hostname
+    ? resolveDomainInput(supabase, hostname)
+    : resolveNameInput(supabase, input);
+};
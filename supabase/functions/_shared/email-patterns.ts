@@ -0,0 +1,174 @@
+// Learns a company's address format from contacts already stored for its
+// domain and generates candidate addresses for people we only know by name.
+
+export type EmailPattern =
+  | "first.last"
+  | "firstlast"
+  | "first_last"
+  | "flast"
+  | "f.last"
+  | "first"
+  | "firstl"
+  | "last.first"
+  | "last";
+
+export interface NamedContact {
+  email: string;
+  first_name?: string | null;
+  last_name?: string | null;
+}
+
+export interface PatternStat {
+  pattern: EmailPattern;
+  matches: number;
+  share: number;
+}
+
+export interface EmailCandidate {
+  email: string;
+  pattern: EmailPattern;
+  confidence: number;
+}
+
+const BUILDERS: Record<EmailPattern, (first: string, last: string) => string> = {
+  "first.last": (first, last) => `${first}.${last}`,
+  firstlast: (first, last) => `${first}${last}`,
+  first_last: (first, last) => `${first}_${last}`,
+  flast: (first, last) => `${first[0]}${last}`,
+  "f.last": (first, last) => `${first[0]}.${last}`,
+  first: (first) => first,
+  firstl: (first, last) => `${first}${last[0]}`,
+  "last.first": (first, last) => `${last}.${first}`,
+  last: (_first, last) => last,
+};
+
+// How common each format is across companies, used when a domain has no samples yet
+const PRIOR_SHARE: Record<EmailPattern, number> = {
+  "first.last": 0.45,
+  flast: 0.15,
+  first: 0.12,
+  firstlast: 0.1,
+  "f.last": 0.05,
+  first_last: 0.04,
+  firstl: 0.04,
+  "last.first": 0.03,
+  last: 0.02,
+};
+
+// Names providers fill in when they don't know the person's name
+const PLACEHOLDER_NAMES = new Set([
+  "contact person",
+  "hr contact",
+  "contact",
+  "person",
+  "hr",
+  "recruiter",
+  "unknown",
+]);
+
+const MAX_CONFIDENCE = 95;
+const PRIOR_WEIGHT = 0.6;
+
+export const normalizeNamePart = (value?: string | null) =>
+  (value || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z]/g, "");
+
+export const isPlaceholderName = (
+  firstName?: string | null,
+  lastName?: string | null
+) => {
+  const full = `${firstName || ""} ${lastName || ""}`.trim().toLowerCase();
+  return (
+    !full ||
+    PLACEHOLDER_NAMES.has(full) ||
+    PLACEHOLDER_NAMES.has((firstName || "").trim().toLowerCase())
+  );
+};
+
+// Every pattern that produces this local part for the given name
+export const detectPatterns = (
+  firstName: string,
+  lastName: string,
+  localPart: string
+): EmailPattern[] => {
+  const first = normalizeNamePart(firstName);
+  const last = normalizeNamePart(lastName);
+  if (!first || !last) return [];
+  const local = localPart.toLowerCase();
+  return (Object.keys(BUILDERS) as EmailPattern[]).filter(
+    (pattern) => BUILDERS[pattern](first, last) === local
+  );
+};
+
+export const inferDomainPatterns = (
+  contacts: NamedContact[],
+  domain: string
+): PatternStat[] => {
+  const counts = new Map<EmailPattern, number>();
+  let samples = 0;
+
+  contacts.forEach((contact) => {
+    const [localPart, emailDomain] = contact.email.toLowerCase().split("@");
+    if (emailDomain !== domain.toLowerCase()) return;
+    if (isPlaceholderName(contact.first_name, contact.last_name)) return;
+    const patterns = detectPatterns(
+      contact.first_name || "",
+      contact.last_name || "",
+      localPart
+    );
+    if (patterns.length === 0) return;
+    samples++;
+    // An ambiguous sample (e.g. a one-letter first name) is split between its patterns
+    patterns.forEach((pattern) =>
+      counts.set(pattern, (counts.get(pattern) || 0) + 1 / patterns.length)
+    );
+  });
+
+  return Array.from(counts.entries())
+    .map(([pattern, matches]) => ({
+      pattern,
+      matches: Math.round(matches * 100) / 100,
+      share: matches / samples,
+    }))
+    .sort((a, b) => b.share - a.share);
+};
+
+export const generateCandidates = (
+  firstName: string,
+  lastName: string,
+  domain: string,
+  stats: PatternStat[],
+  limit = 3
+): EmailCandidate[] => {
+  const first = normalizeNamePart(firstName);
+  const last = normalizeNamePart(lastName);
+  if (!first || !last) return [];
+
+  const samples = stats.reduce((sum, stat) => sum + stat.matches, 0);
+  // Confidence grows with the number of stored samples backing the pattern
+  const sampleWeight = samples > 0 ? 1 - 1 / (samples + 2) : PRIOR_WEIGHT;
+  const shares: [EmailPattern, number][] =
+    stats.length > 0
+      ? stats.map((stat) => [stat.pattern, stat.share])
+      : (Object.entries(PRIOR_SHARE) as [EmailPattern, number][]);
+
+  const seen = new Set<string>();
+  const candidates: EmailCandidate[] = [];
+  shares.forEach(([pattern, share]) => {
+    const email = `${BUILDERS[pattern](first, last)}@${domain.toLowerCase()}`;
+    if (seen.has(email)) return;
+    seen.add(email);
+    candidates.push({
+      email,
+      pattern,
+      confidence: Math.min(MAX_CONFIDENCE, Math.round(share * sampleWeight * 100)),
+    });
+  });
+
+  return candidates
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+};
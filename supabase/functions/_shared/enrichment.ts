@@ -0,0 +1,220 @@
+// Company enrichment: fills companies.industry, size and location from the
+// providers' company endpoints. Providers follow the same shape as the email
+// providers in search-recruiters and are tried in order; each field is taken
+// from the first provider that knows it.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { UsageLedger } from "./provider-usage.ts";
+import { isMockMode, mockCompanyFor, MOCK_PROVIDER_NAME } from "./mock.ts";
+
+export interface Firmographics {
+  industry?: string;
+  size?: string;
+  location?: string;
+  apolloCompanyId?: string;
+}
+
+export interface EnrichmentProvider {
+  name: string;
+  enrichCompany: (
+    domain: string
+  ) => Promise<{ data?: Firmographics; error?: string }>;
+}
+
+export interface EnrichableCompany {
+  id: string;
+  domain: string | null;
+  apollo_company_id?: string | null;
+}
+
+const DEFAULT_TTL_DAYS = 30;
+
+const SIZE_BUCKETS: [number, string][] = [
+  [10, "1-10"],
+  [50, "11-50"],
+  [200, "51-200"],
+  [500, "201-500"],
+  [1000, "501-1000"],
+  [5000, "1001-5000"],
+  [10000, "5001-10000"],
+];
+
+export const sizeBucket = (employees?: number | null) => {
+  if (!employees || employees <= 0) return undefined;
+  const bucket = SIZE_BUCKETS.find(([max]) => employees <= max);
+  return bucket ? bucket[1] : "10000+";
+};
+
+const joinLocation = (...parts: (string | null | undefined)[]) =>
+  parts.filter((part) => part && part.trim()).join(", ") || undefined;
+
+// Calls go through the usage ledger when one is given so they count against budgets
+export const createEnrichmentProviders = (
+  ledger?: UsageLedger
+): EnrichmentProvider[] => {
+  if (isMockMode()) {
+    return [
+      {
+        name: MOCK_PROVIDER_NAME,
+        enrichCompany: async (domain: string) => {
+          const { industry, size, location } = mockCompanyFor(domain);
+          return { data: { industry, size, location } };
+        },
+      },
+    ];
+  }
+
+  const providers: EnrichmentProvider[] = [];
+  const providerFetch = (
+    provider: string,
+    operation: string,
+    url: string,
+    init: RequestInit
+  ) => (ledger ? ledger.fetch(provider, operation, url, init) : fetch(url, init));
+
+  // Apollo.io organization enrichment
+  const apolloApiKey = Deno.env.get("APOLLO_API_KEY");
+  if (apolloApiKey) {
+    const apolloBaseUrl = (
+      Deno.env.get("APOLLO_API_URL") || "https://api.apollo.io"
+    ).replace(/\/+$/, "");
+    providers.push({
+      name: "Apollo.io",
+      enrichCompany: async (domain: string) => {
+        try {
+          const response = await providerFetch(
+            "Apollo.io",
+            "organizations/enrich",
+            `${apolloBaseUrl}/api/v1/organizations/enrich?domain=${encodeURIComponent(domain)}`,
+            {
+              method: "GET",
+              headers: {
+                "Content-Type": "application/json",
+                "Cache-Control": "no-cache",
+                "X-Api-Key": apolloApiKey,
+              },
+            }
+          );
+          if (!response.ok)
+            return { error: `Apollo.io API error: HTTP ${response.status}` };
+          const { organization } = await response.json();
+          if (!organization) return { data: {} };
+          return {
+            data: {
+              industry: organization.industry || undefined,
+              size: sizeBucket(organization.estimated_num_employees),
+              location: joinLocation(
+                organization.city,
+                organization.state,
+                organization.country
+              ),
+              apolloCompanyId: organization.id || undefined,
+            },
+          };
+        } catch (error) {
+          return { error: error.message };
+        }
+      },
+    });
+  }
+
+  // Hunter.io Companies API
+  const hunterApiKey = Deno.env.get("HUNTER_API_KEY");
+  if (hunterApiKey) {
+    providers.push({
+      name: "Hunter.io",
+      enrichCompany: async (domain: string) => {
+        try {
+          const response = await providerFetch(
+            "Hunter.io",
+            "companies/find",
+            `https://api.hunter.io/v2/companies/find?domain=${domain}&api_key=${hunterApiKey}`,
+            { method: "GET" }
+          );
+          if (!response.ok)
+            return { error: `Hunter.io API error: HTTP ${response.status}` };
+          const { data } = await response.json();
+          if (!data) return { data: {} };
+          return {
+            data: {
+              industry: data.category?.industry || data.category?.sector || undefined,
+              // Hunter already reports a range such as "1K-5K"
+              size: data.metrics?.employees || undefined,
+              location: joinLocation(data.geo?.city, data.geo?.state, data.geo?.country),
+            },
+          };
+        } catch (error) {
+          return { error: error.message };
+        }
+      },
+    });
+  }
+
+  return providers;
+};
+
+export const isEnrichmentStale = (enrichedAt?: string | null) => {
+  if (!enrichedAt) return true;
+  const ttlDays =
+    Number(Deno.env.get("ENRICHMENT_TTL_DAYS")) || DEFAULT_TTL_DAYS;
+  return Date.now() - new Date(enrichedAt).getTime() > ttlDays * 86_400_000;
+};
+
+// Enriches a stored company and writes the result back. Fields no provider
+// knows are left as they are. Returns the updated row.
+export const enrichCompany = async (
+  supabase: SupabaseClient,
+  company: EnrichableCompany,
+  providers: EnrichmentProvider[] = createEnrichmentProviders()
+) => {
+  if (!company.domain || providers.length === 0)
+    return { company, errors: [] as string[] };
+
+  const results = await Promise.all(
+    providers.map((provider) => provider.enrichCompany(company.domain!))
+  );
+
+  const merged: Firmographics = {};
+  const sources: string[] = [];
+  const errors: string[] = [];
+  results.forEach((result, index) => {
+    if (result.error) {
+      console.error(result.error);
+      errors.push(result.error);
+      return;
+    }
+    let contributed = false;
+    (Object.keys(result.data || {}) as (keyof Firmographics)[]).forEach((field) => {
+      const value = result.data![field];
+      if (value && !merged[field]) {
+        merged[field] = value;
+        contributed = true;
+      }
+    });
+    if (contributed) sources.push(providers[index].name);
+  });
+
+  // Leave enriched_at alone when every provider failed, so a transient outage
+  // doesn't hold off the next attempt for a whole TTL
+  if (errors.length === providers.length) return { company, errors };
+
+  const updates: Record<string, unknown> = {
+    enriched_at: new Date().toISOString(),
+    enrichment_source: sources.join(", ") || null,
+  };
+  if (merged.industry) updates.industry = merged.industry;
+  if (merged.size) updates.size = merged.size;
+  if (merged.location) updates.location = merged.location;
+  if (merged.apolloCompanyId && !company.apollo_company_id)
+    updates.apollo_company_id = merged.apolloCompanyId;
+
+  const { data: updated, error } = await supabase
+    .from("companies")
+    .update(updates)
+    .eq("id", company.id)
+    .select()
+    .single();
+  if (error) throw new Error(`Failed to save enrichment: ${error.message}`);
+
+  return { company: updated, errors };
+};
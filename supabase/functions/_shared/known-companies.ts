@@ -0,0 +1,94 @@
+// Bundled name -> email domain mappings for companies whose domain can't be
+// guessed from their name (gs.com, jpmchase.com, ...) or that users commonly
+// search by a short or former name. Checked after the companies table.
+
+export interface KnownCompany {
+  name: string;
+  domain: string;
+  aliases?: string[];
+}
+
+export const KNOWN_COMPANIES: KnownCompany[] = [
+  { name: "Accenture", domain: "accenture.com" },
+  { name: "Adobe", domain: "adobe.com" },
+  { name: "Airbnb", domain: "airbnb.com" },
+  { name: "Amazon", domain: "amazon.com", aliases: ["AWS", "Amazon Web Services"] },
+  { name: "AMD", domain: "amd.com", aliases: ["Advanced Micro Devices"] },
+  { name: "American Express", domain: "aexp.com", aliases: ["Amex"] },
+  { name: "Anthropic", domain: "anthropic.com" },
+  { name: "Apple", domain: "apple.com" },
+  { name: "Atlassian", domain: "atlassian.com" },
+  { name: "Bain & Company", domain: "bain.com", aliases: ["Bain"] },
+  { name: "Bank of America", domain: "bofa.com", aliases: ["BofA", "Merrill Lynch"] },
+  { name: "Block", domain: "block.xyz", aliases: ["Square", "Block Inc"] },
+  { name: "Bloomberg", domain: "bloomberg.net", aliases: ["Bloomberg LP"] },
+  { name: "Boeing", domain: "boeing.com" },
+  { name: "Boston Consulting Group", domain: "bcg.com", aliases: ["BCG"] },
+  { name: "Capital One", domain: "capitalone.com" },
+  { name: "Cisco", domain: "cisco.com", aliases: ["Cisco Systems"] },
+  { name: "Citadel", domain: "citadel.com" },
+  { name: "Citi", domain: "citi.com", aliases: ["Citigroup", "Citibank"] },
+  { name: "Coinbase", domain: "coinbase.com" },
+  { name: "Costco", domain: "costco.com", aliases: ["Costco Wholesale"] },
+  { name: "Databricks", domain: "databricks.com" },
+  { name: "Dell Technologies", domain: "dell.com", aliases: ["Dell"] },
+  { name: "Deloitte", domain: "deloitte.com" },
+  { name: "Disney", domain: "disney.com", aliases: ["The Walt Disney Company", "Walt Disney"] },
+  { name: "Dropbox", domain: "dropbox.com" },
+  { name: "EY", domain: "ey.com", aliases: ["Ernst & Young", "Ernst and Young"] },
+  { name: "Ford", domain: "ford.com", aliases: ["Ford Motor Company"] },
+  { name: "General Electric", domain: "ge.com", aliases: ["GE"] },
+  { name: "General Motors", domain: "gm.com", aliases: ["GM"] },
+  { name: "Goldman Sachs", domain: "gs.com", aliases: ["Goldman"] },
+  { name: "Google", domain: "google.com", aliases: ["Alphabet"] },
+  { name: "Hewlett Packard Enterprise", domain: "hpe.com", aliases: ["HPE"] },
+  { name: "HP", domain: "hp.com", aliases: ["HP Inc", "Hewlett-Packard"] },
+  { name: "IBM", domain: "ibm.com", aliases: ["International Business Machines"] },
+  { name: "Intel", domain: "intel.com" },
+  { name: "Intuit", domain: "intuit.com" },
+  { name: "Jane Street", domain: "janestreet.com" },
+  { name: "Johnson & Johnson", domain: "jnj.com", aliases: ["J&J", "Johnson and Johnson"] },
+  { name: "JPMorgan Chase", domain: "jpmchase.com", aliases: ["JPMorgan", "JP Morgan", "Chase"] },
+  { name: "KPMG", domain: "kpmg.com" },
+  { name: "LinkedIn", domain: "linkedin.com" },
+  { name: "Lockheed Martin", domain: "lmco.com", aliases: ["Lockheed"] },
+  { name: "Lyft", domain: "lyft.com" },
+  { name: "Mastercard", domain: "mastercard.com" },
+  { name: "McKinsey & Company", domain: "mckinsey.com", aliases: ["McKinsey"] },
+  { name: "Meta", domain: "meta.com", aliases: ["Facebook", "Meta Platforms"] },
+  { name: "Microsoft", domain: "microsoft.com" },
+  { name: "Morgan Stanley", domain: "morganstanley.com" },
+  { name: "Netflix", domain: "netflix.com" },
+  { name: "NVIDIA", domain: "nvidia.com" },
+  { name: "OpenAI", domain: "openai.com" },
+  { name: "Oracle", domain: "oracle.com" },
+  { name: "Palantir", domain: "palantir.com", aliases: ["Palantir Technologies"] },
+  { name: "PayPal", domain: "paypal.com" },
+  { name: "Pfizer", domain: "pfizer.com" },
+  { name: "Pinterest", domain: "pinterest.com" },
+  { name: "Procter & Gamble", domain: "pg.com", aliases: ["P&G", "Procter and Gamble"] },
+  { name: "PwC", domain: "pwc.com", aliases: ["PricewaterhouseCoopers"] },
+  { name: "Qualcomm", domain: "qualcomm.com" },
+  { name: "Robinhood", domain: "robinhood.com" },
+  { name: "Salesforce", domain: "salesforce.com", aliases: ["Slack"] },
+  { name: "Samsung", domain: "samsung.com" },
+  { name: "ServiceNow", domain: "servicenow.com" },
+  { name: "Shopify", domain: "shopify.com" },
+  { name: "Snap", domain: "snap.com", aliases: ["Snapchat", "Snap Inc"] },
+  { name: "Snowflake", domain: "snowflake.com" },
+  { name: "Sony", domain: "sony.com" },
+  { name: "Spotify", domain: "spotify.com" },
+  { name: "Square", domain: "squareup.com" },
+  { name: "Stripe", domain: "stripe.com" },
+  { name: "Target", domain: "target.com" },
+  { name: "Tesla", domain: "tesla.com" },
+  { name: "Two Sigma", domain: "twosigma.com" },
+  { name: "Uber", domain: "uber.com" },
+  { name: "Visa", domain: "visa.com" },
+  { name: "Walmart", domain: "walmart.com" },
+  { name: "Warner Bros. Discovery", domain: "wbd.com", aliases: ["Warner Bros", "WBD"] },
+  { name: "Wells Fargo", domain: "wellsfargo.com" },
+  { name: "Workday", domain: "workday.com" },
+  { name: "X", domain: "x.com", aliases: ["Twitter"] },
+  { name: "Zoom", domain: "zoom.us", aliases: ["Zoom Video Communications"] },
+];
@@ -0,0 +1,77 @@
+// Mail transports used by process-email-queue. "resend" delivers through Resend;
+// "capture" writes each message to the captured_emails table instead, so
+// campaigns can be sent locally without a Resend key or network access.
+//
+// MAIL_TRANSPORT selects the transport explicitly; otherwise MOCK_MODE=true
+// picks capture and everything else uses Resend.
+
+import { Resend } from "npm:resend@2.0.0";
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { isMockMode } from './mock.ts';
+
+export interface OutgoingEmail {
+  from: string;
+  to: string[];
+  subject: string;
+  html: string;
+  // Threading (Message-ID, In-Reply-To, References) and List-Unsubscribe headers
+  headers?: Record<string, string>;
+}
+
+export interface MailTransport {
+  name: 'resend' | 'capture';
+  send: (email: OutgoingEmail, emailLog: { id: string; campaignId: string }) => Promise<{ id?: string; error?: string }>;
+}
+
+export const createResendTransport = (apiKey: string): MailTransport => {
+  const resend = new Resend(apiKey);
+  return {
+    name: 'resend',
+    send: async (email: OutgoingEmail) => {
+      const response = await resend.emails.send(email);
+      if (response.error) return { error: response.error.message };
+      return { id: response.data?.id };
+    },
+  };
+};
+
+export const createCaptureTransport = (supabase: SupabaseClient): MailTransport => ({
+  name: 'capture',
+  send: async (email: OutgoingEmail, emailLog: { id: string; campaignId: string }) => {
+    const { data, error } = await supabase
+      .from('captured_emails')
+      .insert({
+        campaign_id: emailLog.campaignId,
+        email_log_id: emailLog.id,
+        from_address: email.from,
+        to_addresses: email.to,
+        subject: email.subject,
+        html: email.html,
+        headers: email.headers || {},
+      })
+      .select('id')
+      .single();
+    if (error) return { error: error.message };
+    console.log(`Captured email to ${email.to.join(', ')} (${data.id})`);
+    return { id: data.id };
+  },
+});
+
+// Returns an error message instead of a transport when Resend is selected but not configured
+export const createTransportFromEnv = (
+  supabase: SupabaseClient
+): { transport: MailTransport } | { error: string } => {
+  const selected = Deno.env.get('MAIL_TRANSPORT') || (isMockMode() ? 'capture' : 'resend');
+  if (selected === 'capture') {
+    return { transport: createCaptureTransport(supabase) };
+  }
+  if (selected !== 'resend') {
+    return { error: `Unknown MAIL_TRANSPORT "${selected}"` };
+  }
+
+  const resendApiKey = Deno.env.get('RESEND_API_KEY');
+  if (!resendApiKey) {
+    return { error: "Resend API key not configured" };
+  }
+  return { transport: createResendTransport(resendApiKey) };
+};
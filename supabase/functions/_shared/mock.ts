@@ -0,0 +1,115 @@
+// Offline mock mode for local development. With MOCK_MODE=true the contact
+// and enrichment providers, the email verifier and the mail transport all run
+// without network access or API keys, so the search -> campaign -> analytics
+// flow can be exercised end to end on a laptop.
+//
+// Contacts come from MOCK_COMPANY_FIXTURES when the domain has one, otherwise
+// they're generated from a hash of the domain, so the same domain always
+// returns the same people.
+
+export const isMockMode = () => Deno.env.get("MOCK_MODE") === "true";
+
+export const MOCK_PROVIDER_NAME = "Mock";
+
+export interface MockContact {
+  firstName: string;
+  lastName: string;
+  title: string;
+  department?: string;
+  // Local part of the address; defaults to first.last
+  localPart?: string;
+  confidence?: number;
+}
+
+export interface MockCompanyFixture {
+  industry: string;
+  size: string;
+  location: string;
+  contacts: MockContact[];
+}
+
+export const MOCK_COMPANY_FIXTURES: Record<string, MockCompanyFixture> = {
+  "stripe.com": {
+    industry: "Financial Services",
+    size: "5001-10000",
+    location: "South San Francisco, California, United States",
+    contacts: [
+      { firstName: "Maya", lastName: "Okafor", title: "Technical Recruiter", department: "human_resources", confidence: 96 },
+      { firstName: "Daniel", lastName: "Reyes", title: "Senior Sourcer", department: "human_resources", confidence: 91 },
+      { firstName: "Priya", lastName: "Natarajan", title: "Talent Acquisition Partner", department: "human_resources", confidence: 88 },
+      { firstName: "Tom", lastName: "Becker", title: "Engineering Manager", department: "engineering", confidence: 84 },
+      { firstName: "Jobs", lastName: "Team", title: "Recruiting", localPart: "jobs", confidence: 70 },
+    ],
+  },
+  "example.com": {
+    industry: "Computer Software",
+    size: "51-200",
+    location: "Austin, Texas, United States",
+    contacts: [
+      { firstName: "Alex", lastName: "Morgan", title: "Recruiter", department: "human_resources", confidence: 95 },
+      { firstName: "Sam", lastName: "Lee", title: "HR Business Partner", department: "human_resources", confidence: 85 },
+      // Rejected by the mock SMTP check, to exercise invalid addresses
+      { firstName: "Bounce", lastName: "Test", title: "Talent Sourcer", localPart: "bounce", confidence: 60 },
+    ],
+  },
+};
+
+const FIRST_NAMES = ["Avery", "Jordan", "Riley", "Casey", "Morgan", "Taylor", "Jamie", "Quinn", "Rowan", "Skyler", "Devon", "Harper"];
+const LAST_NAMES = ["Nguyen", "Patel", "Garcia", "Kim", "Schmidt", "Rossi", "Cohen", "Silva", "Brown", "Ito", "Dubois", "Larsen"];
+const TITLES: Omit<MockContact, "firstName" | "lastName">[] = [
+  { title: "Technical Recruiter", department: "human_resources" },
+  { title: "Sourcer", department: "human_resources" },
+  { title: "Talent Acquisition Partner", department: "human_resources" },
+  { title: "Recruiting Coordinator", department: "human_resources" },
+  { title: "HR Generalist", department: "human_resources" },
+  { title: "Engineering Manager", department: "engineering" },
+  { title: "Software Engineer", department: "engineering" },
+  { title: "Account Executive", department: "sales" },
+];
+const INDUSTRIES = ["Computer Software", "Internet", "Financial Services", "Hospital & Health Care", "Retail"];
+const SIZES = ["11-50", "51-200", "201-500", "501-1000", "1001-5000"];
+const LOCATIONS = ["New York, New York, United States", "London, England, United Kingdom", "Berlin, Germany", "Toronto, Ontario, Canada", "Seattle, Washington, United States"];
+
+// FNV-1a, so generated data is stable across runs and platforms
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const pick = <T>(items: T[], seed: number) => items[seed % items.length];
+
+const generateFixture = (domain: string): MockCompanyFixture => {
+  const seed = hashString(domain);
+  const seen = new Set<string>();
+  const contacts: MockContact[] = [];
+  for (let i = 0; i < 6 + (seed % 5); i++) {
+    const personSeed = hashString(`${domain}#${i}`);
+    const firstName = pick(FIRST_NAMES, personSeed);
+    const lastName = pick(LAST_NAMES, personSeed >>> 8);
+    const key = `${firstName} ${lastName}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    contacts.push({
+      firstName,
+      lastName,
+      ...pick(TITLES, personSeed >>> 16),
+      confidence: 50 + (personSeed % 50),
+    });
+  }
+  return {
+    industry: pick(INDUSTRIES, seed),
+    size: pick(SIZES, seed >>> 4),
+    location: pick(LOCATIONS, seed >>> 8),
+    contacts,
+  };
+};
+
+export const mockCompanyFor = (domain: string): MockCompanyFixture =>
+  MOCK_COMPANY_FIXTURES[domain.toLowerCase()] || generateFixture(domain.toLowerCase());
+
+export const mockEmailFor = (contact: MockContact, domain: string) =>
+  `${contact.localPart || `${contact.firstName}.${contact.lastName}`.toLowerCase()}@${domain.toLowerCase()}`;
@@ -0,0 +1,169 @@
+// Provider usage ledger: every call to a paid provider goes through
+// ledger.fetch, which enforces the provider's per-second rate limit and its
+// daily/monthly credit budgets (provider_budgets), and records the call, the
+// credits it used and any HTTP 429 in provider_usage.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface ProviderBudget {
+  provider: string;
+  daily_limit: number | null;
+  monthly_limit: number | null;
+  per_second_limit: number | null;
+}
+
+export interface ProviderUsageTotals {
+  provider: string;
+  credits_today: number;
+  credits_month: number;
+  rate_limited_today: number;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  reason?: string;
+  remainingDaily: number | null;
+  remainingMonthly: number | null;
+}
+
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+// Longest we'll wait on a 429 Retry-After before giving up on the call
+const MAX_RETRY_AFTER_MS = 5000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const createUsageLedger = (supabase: SupabaseClient) => {
+  let loaded: Promise<void> | null = null;
+  const budgets = new Map<string, ProviderBudget>();
+  const totals = new Map<string, ProviderUsageTotals>();
+  const lastCallAt = new Map<string, number>();
+
+  const load = () => {
+    if (!loaded) {
+      loaded = (async () => {
+        const [{ data: budgetRows, error: budgetError }, { data: totalRows, error: totalsError }] =
+          await Promise.all([
+            supabase.from("provider_budgets").select("*"),
+            supabase.rpc("provider_usage_totals"),
+          ]);
+        if (budgetError) console.error("Error loading provider budgets:", budgetError);
+        if (totalsError) console.error("Error loading provider usage:", totalsError);
+        (budgetRows || []).forEach((budget: ProviderBudget) =>
+          budgets.set(budget.provider, budget)
+        );
+        (totalRows || []).forEach((total: ProviderUsageTotals) =>
+          totals.set(total.provider, total)
+        );
+      })();
+    }
+    return loaded;
+  };
+
+  const totalsFor = (provider: string) => {
+    let total = totals.get(provider);
+    if (!total) {
+      total = { provider, credits_today: 0, credits_month: 0, rate_limited_today: 0 };
+      totals.set(provider, total);
+    }
+    return total;
+  };
+
+  const checkBudget = async (provider: string, credits = 1): Promise<BudgetCheck> => {
+    await load();
+    const budget = budgets.get(provider);
+    const total = totalsFor(provider);
+    const remainingDaily =
+      budget?.daily_limit != null ? budget.daily_limit - total.credits_today : null;
+    const remainingMonthly =
+      budget?.monthly_limit != null ? budget.monthly_limit - total.credits_month : null;
+
+    if (remainingDaily != null && remainingDaily < credits)
+      return {
+        allowed: false,
+        reason: `${provider} is over its daily budget (${total.credits_today}/${budget!.daily_limit} credits); deferred until tomorrow`,
+        remainingDaily,
+        remainingMonthly,
+      };
+    if (remainingMonthly != null && remainingMonthly < credits)
+      return {
+        allowed: false,
+        reason: `${provider} is over its monthly budget (${total.credits_month}/${budget!.monthly_limit} credits); deferred until next month`,
+        remainingDaily,
+        remainingMonthly,
+      };
+    return { allowed: true, remainingDaily, remainingMonthly };
+  };
+
+  const throttle = async (provider: string) => {
+    const perSecond = budgets.get(provider)?.per_second_limit;
+    if (!perSecond || perSecond <= 0) return;
+    const spacing = 1000 / perSecond;
+    const previous = lastCallAt.get(provider) ?? 0;
+    // Reserve the slot before waiting so concurrent callers queue behind each other
+    const slot = Math.max(Date.now(), previous + spacing);
+    lastCallAt.set(provider, slot);
+    if (slot > Date.now()) await sleep(slot - Date.now());
+  };
+
+  const record = async (
+    provider: string,
+    operation: string,
+    statusCode: number | null,
+    credits: number
+  ) => {
+    const total = totalsFor(provider);
+    total.credits_today += credits;
+    total.credits_month += credits;
+    if (statusCode === 429) total.rate_limited_today++;
+
+    const { error } = await supabase.from("provider_usage").insert({
+      provider,
+      operation,
+      status_code: statusCode,
+      credits_used: credits,
+      rate_limited: statusCode === 429,
+    });
+    if (error) console.error(`Error recording ${provider} usage:`, error);
+  };
+
+  // Drop-in replacement for fetch. Failed calls are recorded without credits;
+  // a 429 is retried once after its Retry-After when that's short enough.
+  const meteredFetch = async (
+    provider: string,
+    operation: string,
+    url: string,
+    init: RequestInit = {},
+    credits = 1
+  ): Promise<Response> => {
+    const check = await checkBudget(provider, credits);
+    if (!check.allowed) throw new QuotaExceededError(check.reason!);
+
+    for (let attempt = 1; ; attempt++) {
+      await throttle(provider);
+      let response: Response;
+      try {
+        response = await fetch(url, init);
+      } catch (error) {
+        await record(provider, operation, null, 0);
+        throw error;
+      }
+      await record(provider, operation, response.status, response.ok ? credits : 0);
+
+      if (response.status !== 429 || attempt > 1) return response;
+      const retryAfterMs = (Number(response.headers.get("Retry-After")) || 1) * 1000;
+      if (retryAfterMs > MAX_RETRY_AFTER_MS) return response;
+      await response.body?.cancel();
+      await sleep(retryAfterMs);
+    }
+  };
+
+  return { checkBudget, fetch: meteredFetch };
+};
+
+export type UsageLedger = ReturnType<typeof createUsageLedger>;
@@ -0,0 +1,121 @@
+// Scores a contact's title and department for talent-acquisition relevance.
+// Providers return every employee they know about; only contacts whose score
+// reaches RELEVANCE_THRESHOLD get a category other than "other".
+
+export type RelevanceCategory =
+  | "recruiter"
+  | "sourcer"
+  | "ta_partner"
+  | "hr"
+  | "hiring_manager"
+  | "other";
+
+export interface RelevanceResult {
+  category: RelevanceCategory;
+  score: number;
+}
+
+export const RELEVANCE_THRESHOLD = 50;
+
+interface RelevanceRule {
+  category: Exclude<RelevanceCategory, "other">;
+  score: number;
+  patterns: RegExp[];
+}
+
+// Ordered from most to least specific: the first matching rule wins
+const TITLE_RULES: RelevanceRule[] = [
+  {
+    category: "sourcer",
+    score: 95,
+    patterns: [/\bsourc(er|ing)\b/],
+  },
+  {
+    category: "ta_partner",
+    score: 95,
+    patterns: [
+      /\btalent acquisition\b/,
+      /\btalent (partner|advisor|lead|scout)\b/,
+      /\bta (partner|lead|manager|specialist)\b/,
+      /\bhead of talent\b/,
+    ],
+  },
+  {
+    category: "recruiter",
+    score: 90,
+    patterns: [/\brecruit(er|ers|ing|ment)\b/, /\bheadhunter\b/],
+  },
+  {
+    category: "hr",
+    score: 65,
+    patterns: [
+      /\bhr\b/,
+      /\bhrbp\b/,
+      /\bhuman resources?\b/,
+      /\bpeople (operations|ops|partner|team|business partner)\b/,
+      /\b(chief|vp|head of) people\b/,
+    ],
+  },
+  {
+    category: "hiring_manager",
+    score: 55,
+    patterns: [
+      /\bhiring manager\b/,
+      /\b(engineering|software|product|design|data) manager\b/,
+      /\bhead of (engineering|product|design|data)\b/,
+      /\b(director|vp|vice president) of (engineering|product|design|data)\b/,
+    ],
+  },
+];
+
+const TA_DEPARTMENT = /\b(recruit\w*|talent|human resources?|hr|people)\b/;
+
+// Engineering titles that match a rule ("Sourcing Engineer", "HR Systems
+// Developer") describe someone who builds the tools, not someone who hires.
+// Titles naming recruiting or talent outright are never penalised, so "Sales
+// Recruiter" stays a recruiter.
+const FALSE_POSITIVE = /\b(engineer|developer)\b/;
+const RECRUITING_KEYWORD = /\b(recruit\w*|talent)\b/;
+
+const normalize = (value?: string | null) =>
+  (value || "").toLowerCase().replace(/[^a-z0-9&]+/g, " ").trim();
+
+export const classifyContact = (
+  title?: string | null,
+  department?: string | null
+): RelevanceResult => {
+  const normalizedTitle = normalize(title);
+  const normalizedDepartment = normalize(department);
+  const inTaDepartment = TA_DEPARTMENT.test(normalizedDepartment);
+
+  const rule = TITLE_RULES.find((candidate) =>
+    candidate.patterns.some((pattern) => pattern.test(normalizedTitle))
+  );
+
+  let category: RelevanceCategory = rule ? rule.category : "other";
+  let score = rule ? rule.score : 10;
+
+  if (
+    rule &&
+    rule.category !== "hiring_manager" &&
+    FALSE_POSITIVE.test(normalizedTitle) &&
+    !RECRUITING_KEYWORD.test(normalizedTitle)
+  ) {
+    score -= 45;
+  }
+
+  if (inTaDepartment) {
+    if (category === "other") {
+      // Generic titles ("Coordinator", "Specialist") inside a recruiting or HR department
+      category = /recruit|talent/.test(normalizedDepartment) ? "recruiter" : "hr";
+      score = 60;
+    } else {
+      score += 10;
+    }
+  }
+
+  score = Math.max(0, Math.min(100, score));
+  if (score < RELEVANCE_THRESHOLD) category = "other";
+
+  return { category, score };
+};
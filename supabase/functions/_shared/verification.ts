@@ -0,0 +1,382 @@
+// Email verification: syntax, MX lookup, SMTP mailbox probe with catch-all
+// detection, disposable and role-address checks, combined with the confidence
+// reported by the provider that found the address.
+//
+// DNS and SMTP access goes through an EmailResolver so verification can run
+// against a local fake (VERIFIER_RESOLVER_URL) or the offline mock
+// (MOCK_MODE) instead of the real network.
+
+import { isMockMode } from "./mock.ts";
+
+export type EmailStatus = "valid" | "invalid" | "risky" | "unknown";
+
+export type SmtpVerdict = "accepted" | "rejected" | "unknown";
+
+export interface MxRecord {
+  exchange: string;
+  preference: number;
+}
+
+export interface EmailResolver {
+  resolveMx: (domain: string) => Promise<MxRecord[]>;
+  probeSmtp: (mxHost: string, email: string) => Promise<SmtpVerdict>;
+}
+
+export interface VerificationChecks {
+  syntax: boolean;
+  mx: boolean | null;
+  smtp: SmtpVerdict | null;
+  catchAll: boolean | null;
+  disposable: boolean;
+  roleAddress: boolean;
+  providerConfidence: number | null;
+}
+
+export interface VerificationResult {
+  email: string;
+  status: EmailStatus;
+  checks: VerificationChecks;
+  reasons: string[];
+}
+
+const EMAIL_PATTERN =
+  /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i;
+
+const DISPOSABLE_DOMAINS = new Set([
+  "10minutemail.com",
+  "dispostable.com",
+  "emailondeck.com",
+  "fakeinbox.com",
+  "getnada.com",
+  "guerrillamail.com",
+  "maildrop.cc",
+  "mailinator.com",
+  "mintemail.com",
+  "mohmal.com",
+  "sharklasers.com",
+  "temp-mail.org",
+  "tempmail.com",
+  "throwawaymail.com",
+  "trashmail.com",
+  "yopmail.com",
+]);
+
+const ROLE_LOCAL_PARTS = new Set([
+  "admin",
+  "billing",
+  "careers",
+  "contact",
+  "help",
+  "hello",
+  "hiring",
+  "hr",
+  "info",
+  "jobs",
+  "marketing",
+  "no-reply",
+  "noreply",
+  "office",
+  "press",
+  "recruiting",
+  "recruitment",
+  "sales",
+  "support",
+  "talent",
+  "team",
+]);
+
+// Provider confidence needed to trust an address the SMTP probe couldn't confirm
+const TRUSTED_CONFIDENCE = 90;
+const RISKY_CONFIDENCE = 50;
+
+export const isValidEmailSyntax = (email: string) =>
+  email.length <= 254 && EMAIL_PATTERN.test(email);
+
+export const isDisposableDomain = (domain: string) =>
+  DISPOSABLE_DOMAINS.has(domain.toLowerCase());
+
+export const isRoleAddress = (email: string) =>
+  ROLE_LOCAL_PARTS.has(email.split("@")[0].toLowerCase().replace(/[._+-]\d*$/, ""));
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, onTimeout?: () => void) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      onTimeout?.();
+      reject(new Error(`Timed out after ${ms}ms`));
+    }, ms);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+
+// Minimal SMTP dialog: EHLO, MAIL FROM, RCPT TO, QUIT. Nothing is ever sent.
+const probeSmtpMailbox = async (
+  mxHost: string,
+  email: string,
+  heloHost: string,
+  timeoutMs: number
+): Promise<SmtpVerdict> => {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let conn: Deno.Conn | undefined;
+
+  const readReply = async (): Promise<number> => {
+    const buffer = new Uint8Array(4096);
+    let text = "";
+    while (true) {
+      const read = await conn!.read(buffer);
+      if (read === null) throw new Error("SMTP connection closed");
+      text += decoder.decode(buffer.subarray(0, read));
+      const lines = text.split("\r\n").filter(Boolean);
+      const last = lines[lines.length - 1] || "";
+      if (text.endsWith("\r\n") && /^\d{3}( |$)/.test(last))
+        return parseInt(last.slice(0, 3), 10);
+    }
+  };
+
+  const command = async (line: string) => {
+    await conn!.write(encoder.encode(`${line}\r\n`));
+    return readReply();
+  };
+
+  const dialog = async (): Promise<SmtpVerdict> => {
+    conn = await Deno.connect({ hostname: mxHost, port: 25 });
+    if ((await readReply()) !== 220) return "unknown";
+    if ((await command(`EHLO ${heloHost}`)) !== 250) return "unknown";
+    if ((await command(`MAIL FROM:<verify@${heloHost}>`)) !== 250)
+      return "unknown";
+    const code = await command(`RCPT TO:<${email}>`);
+    await command("QUIT").catch(() => undefined);
+    if (code === 250 || code === 251) return "accepted";
+    if (code >= 550 && code <= 553) return "rejected";
+    return "unknown";
+  };
+
+  try {
+    return await withTimeout(dialog(), timeoutMs, () => conn?.close());
+  } catch (error) {
+    console.error(`SMTP probe of ${mxHost} failed:`, error.message);
+    return "unknown";
+  } finally {
+    try {
+      conn?.close();
+    } catch {
+      // Already closed by the timeout
+    }
+  }
+};
+
+// Real network resolver. Many hosts (including Supabase Edge) block outbound
+// port 25, so SMTP probing is opt-in and reports "unknown" when disabled.
+export const createDenoResolver = (options: {
+  smtpProbe: boolean;
+  heloHost: string;
+  timeoutMs: number;
+}): EmailResolver => ({
+  resolveMx: async (domain: string) => {
+    let records: Deno.MxRecord[];
+    try {
+      records = await withTimeout(
+        Deno.resolveDns(domain, "MX"),
+        options.timeoutMs
+      );
+    } catch (error) {
+      // NXDOMAIN / no data means the domain can't receive mail, not a lookup failure
+      if (error instanceof Deno.errors.NotFound) return [];
+      throw error;
+    }
+    return records.map((record) => ({
+      exchange: record.exchange.replace(/\.$/, ""),
+      preference: record.preference,
+    }));
+  },
+  probeSmtp: (mxHost: string, email: string) =>
+    options.smtpProbe
+      ? probeSmtpMailbox(mxHost, email, options.heloHost, options.timeoutMs)
+      : Promise.resolve("unknown"),
+});
+
+// Resolver backed by an HTTP service, used to point verification at a local fake:
+//   GET  {baseUrl}/mx?domain=example.com  -> { records: MxRecord[] }
+//   POST {baseUrl}/smtp { host, email }    -> { verdict: SmtpVerdict }
+export const createHttpResolver = (baseUrl: string): EmailResolver => {
+  const root = baseUrl.replace(/\/+$/, "");
+  return {
+    resolveMx: async (domain: string) => {
+      const response = await fetch(
+        `${root}/mx?domain=${encodeURIComponent(domain)}`
+      );
+      if (!response.ok)
+        throw new Error(`MX lookup failed: HTTP ${response.status}`);
+      const data = await response.json();
+      return data.records || [];
+    },
+    probeSmtp: async (mxHost: string, email: string) => {
+      const response = await fetch(`${root}/smtp`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ host: mxHost, email }),
+      });
+      if (!response.ok) return "unknown";
+      const data = await response.json();
+      return data.verdict || "unknown";
+    },
+  };
+};
+
+// Offline resolver for MOCK_MODE: every domain has mail, mailboxes starting
+// with "bounce" are rejected and everything else (except the catch-all probe)
+// is accepted.
+export const createMockResolver = (): EmailResolver => ({
+  resolveMx: (domain: string) =>
+    Promise.resolve([{ exchange: `mx.${domain}`, preference: 10 }]),
+  probeSmtp: (_mxHost: string, email: string) => {
+    const localPart = email.split("@")[0].toLowerCase();
+    return Promise.resolve(
+      localPart.startsWith("bounce") || localPart.startsWith("no-such-user-")
+        ? "rejected"
+        : "accepted"
+    );
+  },
+});
+
+export const createResolverFromEnv = (): EmailResolver => {
+  if (isMockMode()) return createMockResolver();
+  const fakeUrl = Deno.env.get("VERIFIER_RESOLVER_URL");
+  if (fakeUrl) return createHttpResolver(fakeUrl);
+  return createDenoResolver({
+    smtpProbe: Deno.env.get("SMTP_PROBE_ENABLED") === "true",
+    heloHost: Deno.env.get("SMTP_PROBE_HELO") || "scout-connect.local",
+    timeoutMs: Number(Deno.env.get("VERIFIER_TIMEOUT_MS")) || 8000,
+  });
+};
+
+interface DomainInfo {
+  mxHost: string | null;
+  mxError: boolean;
+  catchAll: boolean | null;
+}
+
+// Creates a verifier that memoizes MX and catch-all results per domain, so a
+// search that verifies a hundred addresses at one company does one lookup.
+export const createEmailVerifier = (
+  resolver: EmailResolver = createResolverFromEnv()
+) => {
+  const domainCache = new Map<string, Promise<DomainInfo>>();
+
+  const inspectDomain = (domain: string) => {
+    let cached = domainCache.get(domain);
+    if (!cached) {
+      cached = (async (): Promise<DomainInfo> => {
+        let records: MxRecord[];
+        try {
+          records = await resolver.resolveMx(domain);
+        } catch (error) {
+          console.error(`MX lookup for ${domain} failed:`, error.message);
+          return { mxHost: null, mxError: true, catchAll: null };
+        }
+        if (records.length === 0)
+          return { mxHost: null, mxError: false, catchAll: null };
+
+        const mxHost = [...records].sort((a, b) => a.preference - b.preference)[0]
+          .exchange;
+        // A mailbox that can't exist: if the server accepts it, it accepts everything
+        const probeAddress = `no-such-user-${crypto.randomUUID().slice(0, 12)}@${domain}`;
+        const verdict = await resolver.probeSmtp(mxHost, probeAddress);
+        return {
+          mxHost,
+          mxError: false,
+          catchAll: verdict === "unknown" ? null : verdict === "accepted",
+        };
+      })();
+      domainCache.set(domain, cached);
+    }
+    return cached;
+  };
+
+  const verify = async (
+    rawEmail: string,
+    providerConfidence?: number | null
+  ): Promise<VerificationResult> => {
+    const email = rawEmail.trim().toLowerCase();
+    const domain = email.split("@")[1] || "";
+    const checks: VerificationChecks = {
+      syntax: isValidEmailSyntax(email),
+      mx: null,
+      smtp: null,
+      catchAll: null,
+      disposable: isDisposableDomain(domain),
+      roleAddress: isRoleAddress(email),
+      providerConfidence: providerConfidence ?? null,
+    };
+    const reasons: string[] = [];
+    const result = (status: EmailStatus): VerificationResult => ({
+      email,
+      status,
+      checks,
+      reasons,
+    });
+
+    if (!checks.syntax) {
+      reasons.push("Address is not syntactically valid");
+      return result("invalid");
+    }
+    if (checks.disposable) {
+      reasons.push("Domain is a disposable mailbox provider");
+      return result("invalid");
+    }
+
+    const domainInfo = await inspectDomain(domain);
+    if (domainInfo.mxError) {
+      reasons.push("MX lookup failed");
+      return result("unknown");
+    }
+    checks.mx = domainInfo.mxHost !== null;
+    if (!checks.mx) {
+      reasons.push("Domain has no MX records");
+      return result("invalid");
+    }
+    checks.catchAll = domainInfo.catchAll;
+
+    checks.smtp = await resolver.probeSmtp(domainInfo.mxHost!, email);
+    if (checks.smtp === "rejected") {
+      reasons.push("Mail server rejected the mailbox");
+      return result("invalid");
+    }
+
+    let status: EmailStatus;
+    if (checks.smtp === "accepted" && checks.catchAll === false) {
+      status = "valid";
+    } else {
+      if (checks.catchAll) reasons.push("Domain accepts all addresses (catch-all)");
+      else reasons.push("Mailbox could not be confirmed over SMTP");
+
+      const confidence = checks.providerConfidence;
+      if (confidence != null && confidence >= TRUSTED_CONFIDENCE && !checks.catchAll) {
+        status = "valid";
+        reasons.push(`Provider confidence ${confidence}%`);
+      } else if (confidence != null && confidence >= RISKY_CONFIDENCE) {
+        status = "risky";
+        reasons.push(`Provider confidence ${confidence}%`);
+      } else {
+        status = checks.catchAll ? "risky" : "unknown";
+      }
+    }
+
+    if (checks.roleAddress && status === "valid") {
+      reasons.push("Shared role address rather than a person");
+      status = "risky";
+    }
+
+    return result(status);
+  };
+
+  return { verify };
+};
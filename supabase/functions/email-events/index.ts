@@ -0,0 +1,83 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyWebhookSignature } from "./signature.ts";
+
+interface ResendEvent {
+  type: string;
+  created_at: string;
+  data: { email_id: string };
+}
+
+// Receives Resend's delivery webhooks. Deliveries are recorded on the email
+// log; a bounce or spam complaint takes the recruiter out of every sequence
+// (see stop_sequence), so no follow-ups go to them.
+const handler = async (req: Request): Promise<Response> => {
+  const body = await req.text();
+  const secret = Deno.env.get("RESEND_WEBHOOK_SECRET");
+  if (!secret) {
+    return new Response(
+      JSON.stringify({ error: "Webhook secret not configured" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+  if (!(await verifyWebhookSignature(secret, req.headers, body))) {
+    return new Response(
+      JSON.stringify({ error: "Invalid signature" }),
+      { status: 401, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const event: ResendEvent = JSON.parse(body);
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: emailLog, error } = await supabase
+      .from("email_logs")
+      .select("id, campaign_id, recruiter_id, status")
+      .eq("provider_message_id", event.data.email_id)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load email: ${error.message}`);
+    // Events for emails sent outside this app are acknowledged and ignored
+    if (!emailLog) {
+      return new Response(JSON.stringify({ ignored: true }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (event.type === "email.delivered" && emailLog.status === "sent") {
+      await supabase
+        .from("email_logs")
+        .update({ status: "delivered", delivered_at: event.created_at })
+        .eq("id", emailLog.id);
+    } else if (event.type === "email.bounced" || event.type === "email.complained") {
+      if (event.type === "email.bounced") {
+        await supabase.from("email_logs").update({ status: "bounced" }).eq("id", emailLog.id);
+      }
+      const { error: stopError } = await supabase.rpc("stop_sequence", {
+        p_campaign_id: emailLog.campaign_id,
+        p_recruiter_id: emailLog.recruiter_id,
+        p_reason: event.type === "email.bounced" ? "bounced" : "unsubscribed",
+      });
+      if (stopError) throw new Error(`Failed to stop sequence: ${stopError.message}`);
+    }
+
+    console.log(`Handled ${event.type} for email ${emailLog.id}`);
+    return new Response(JSON.stringify({ handled: event.type }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    console.error("Error in email-events function:", error);
+    return new Response(
+      JSON.stringify({
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : String(error),
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,191 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  generateCandidates,
+  inferDomainPatterns,
+} from "../_shared/email-patterns.ts";
+import { classifyContact } from "../_shared/relevance.ts";
+import { createEmailVerifier } from "../_shared/verification.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface InferRequest {
+  companyId: string;
+  firstName: string;
+  lastName: string;
+  title?: string;
+  linkedinUrl?: string;
+  // Probe candidates over SMTP and prefer the first one that verifies; on by default
+  verifyEmails?: boolean;
+}
+
+// Generates an address for a person the user found elsewhere (e.g. LinkedIn),
+// using the format learned from the company's stored contacts, and saves it
+// as an "inferred" recruiter. Inferred addresses stay out of campaigns until
+// verification marks them valid.
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const {
+      companyId,
+      firstName,
+      lastName,
+      title,
+      linkedinUrl,
+      verifyEmails = true,
+    }: InferRequest = await req.json();
+    if (!companyId || !firstName?.trim() || !lastName?.trim()) {
+      return new Response(
+        JSON.stringify({
+          error: "companyId, firstName and lastName are required",
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: company, error: companyError } = await supabase
+      .from("companies")
+      .select("*")
+      .eq("id", companyId)
+      .single();
+    if (companyError || !company?.domain) {
+      return new Response(
+        JSON.stringify({ error: "Company not found or has no domain" }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Learn only from addresses a provider returned, never from earlier guesses
+    const { data: samples, error: samplesError } = await supabase
+      .from("recruiters")
+      .select("email, first_name, last_name")
+      .eq("company_id", companyId)
+      .neq("email_source", "inferred");
+    if (samplesError)
+      throw new Error(`Failed to load stored contacts: ${samplesError.message}`);
+
+    const patterns = inferDomainPatterns(samples || [], company.domain);
+    const candidates = generateCandidates(
+      firstName,
+      lastName,
+      company.domain,
+      patterns
+    );
+    if (candidates.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "Could not build an address from that name" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const verifier = verifyEmails ? createEmailVerifier() : null;
+    const verifiedCandidates = [];
+    for (const candidate of candidates) {
+      // Pattern confidence is not provider confidence, so it never vouches for the address
+      const verification = verifier ? await verifier.verify(candidate.email) : null;
+      verifiedCandidates.push({ ...candidate, verification });
+      if (verification?.status === "valid") break;
+    }
+    const chosen =
+      verifiedCandidates.find(
+        (candidate) => candidate.verification?.status === "valid"
+      ) ||
+      verifiedCandidates.find(
+        (candidate) => candidate.verification?.status !== "invalid"
+      ) ||
+      verifiedCandidates[0];
+
+    const { data: existingRecruiter } = await supabase
+      .from("recruiters")
+      .select("*")
+      .eq("company_id", companyId)
+      .eq("email", chosen.email)
+      .maybeSingle();
+
+    let recruiter = existingRecruiter;
+    if (!recruiter) {
+      const relevance = classifyContact(title);
+      const { data: newRecruiter, error } = await supabase
+        .from("recruiters")
+        .insert({
+          company_id: companyId,
+          first_name: firstName.trim(),
+          last_name: lastName.trim(),
+          email: chosen.email,
+          title: title || null,
+          linkedin_url: linkedinUrl || null,
+          relevance_score: relevance.score,
+          relevance_category: relevance.category,
+          email_source: "inferred",
+          email_confidence: chosen.confidence,
+          email_status: chosen.verification?.status ?? "unknown",
+          email_verification: chosen.verification
+            ? {
+                checks: chosen.verification.checks,
+                reasons: chosen.verification.reasons,
+              }
+            : null,
+          // A guessed address only counts as verified once a check confirms it
+          email_verified_at: chosen.verification?.status === "valid"
+            ? new Date().toISOString()
+            : null,
+        })
+        .select()
+        .single();
+      if (error) throw new Error(`Failed to save recruiter: ${error.message}`);
+      recruiter = newRecruiter;
+    }
+
+    return new Response(
+      JSON.stringify({
+        recruiter: {
+          ...recruiter,
+          status: existingRecruiter ? "existing" : "new",
+        },
+        patterns,
+        candidates: verifiedCandidates.map((candidate) => ({
+          email: candidate.email,
+          pattern: candidate.pattern,
+          confidence: candidate.confidence,
+          email_status: candidate.verification?.status ?? "unknown",
+        })),
+      }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error("Error in infer-email function:", error);
+    return new Response(
+      JSON.stringify({
+        error: "Internal server error",
+        details: error.message,
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,230 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createTransportFromEnv } from "../_shared/mail-transport.ts";
+import { cancelLaterSteps, scheduleNextStep, sequenceHeaders, type SequenceEmail } from "./sequence.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface QueuedEmail extends SequenceEmail {
+  email: string;
+  from_address: string | null;
+  subject: string;
+  content: string;
+  attempts: number;
+}
+
+// Sending limits, overridable through the environment. The per-sender cap is
+// off unless EMAIL_SENDER_DAILY_LIMIT is set.
+const readLimit = (name: string, fallback: number | null) => {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const PER_MINUTE = readLimit("EMAIL_RATE_PER_MINUTE", 20)!;
+const PER_DAY = readLimit("EMAIL_DAILY_LIMIT", 500)!;
+const PER_SENDER_PER_DAY = readLimit("EMAIL_SENDER_DAILY_LIMIT", null);
+const JITTER_MS = readLimit("EMAIL_JITTER_SECONDS", 5)! * 1000;
+
+const DEFAULT_FROM = "Job Seeker <outreach@resend.dev>";
+
+// pg_cron starts a run every minute; a run stops sending before the next one
+// starts and hands back anything it didn't get to
+const RUN_BUDGET_MS = 50_000;
+// Long enough to cover a run, so a leased row is only retaken once its worker is gone
+const LEASE_SECONDS = 120;
+
+const MAX_ATTEMPTS = 3;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Paused and cancelled campaigns stop between two emails, so each email checks
+// its campaign is still sending right before it goes out. A campaign deleted
+// mid-run isn't sending either.
+const isStillSending = async (supabase: SupabaseClient, campaignId: string) => {
+  const { data, error } = await supabase
+    .from("email_campaigns")
+    .select("status")
+    .eq("id", campaignId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load campaign ${campaignId}: ${error.message}`);
+  return data?.status === "sending";
+};
+
+// Brings a campaign's counters up to date and completes it once its queue is
+// empty, follow-ups still waiting on an earlier step included
+const updateCampaignProgress = async (supabase: SupabaseClient, campaignId: string) => {
+  const [{ count: total }, { count: sent }, { count: pending }] = await Promise.all([
+    supabase
+      .from("email_logs")
+      .select("id", { count: "exact", head: true })
+      .eq("campaign_id", campaignId)
+      .neq("status", "cancelled"),
+    supabase
+      .from("email_logs")
+      .select("id", { count: "exact", head: true })
+      .eq("campaign_id", campaignId)
+      .not("sent_at", "is", null),
+    supabase
+      .from("email_logs")
+      .select("id", { count: "exact", head: true })
+      .eq("campaign_id", campaignId)
+      .eq("status", "pending"),
+  ]);
+  await supabase
+    .from("email_campaigns")
+    .update({ total_emails: total || 0, emails_sent: sent || 0, emails_delivered: sent || 0 })
+    .eq("id", campaignId);
+  if (pending === 0) {
+    await supabase
+      .from("email_campaigns")
+      .update({ status: "completed" })
+      .eq("id", campaignId)
+      .eq("status", "sending");
+  }
+};
+
+// Sends due emails from the queue within the per-minute, daily and per-sender
+// limits, spacing them out with random jitter so they don't go out in a burst.
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const startedAt = Date.now();
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const transportResult = createTransportFromEnv(supabase);
+    if ("error" in transportResult) throw new Error(transportResult.error);
+    const { transport } = transportResult;
+
+    // The limits are enforced by the claim itself, so overlapping runs share them
+    const { data: claimed, error: claimError } = await supabase.rpc("claim_email_queue", {
+      per_minute: PER_MINUTE,
+      per_day: PER_DAY,
+      lease_seconds: LEASE_SECONDS,
+      sender_daily_cap: PER_SENDER_PER_DAY,
+    });
+    if (claimError) throw new Error(`Failed to claim queued emails: ${claimError.message}`);
+    const queue: QueuedEmail[] = claimed || [];
+
+    // Spread the batch over the run, at most PER_MINUTE emails a minute
+    const spacing = queue.length > 1 ? Math.min(60_000 / PER_MINUTE, RUN_BUDGET_MS / queue.length) : 0;
+    const campaignIds = new Set<string>();
+    let sent = 0;
+    let failed = 0;
+    let released = 0;
+
+    let attempted = 0;
+    for (const [index, email] of queue.entries()) {
+      if (attempted > 0) await sleep(Math.max(0, spacing + (Math.random() * 2 - 1) * Math.min(JITTER_MS, spacing)));
+      if (Date.now() - startedAt > RUN_BUDGET_MS) {
+        const remaining = queue.slice(index).map((row) => row.id);
+        await supabase.from("email_logs").update({ locked_until: null }).in("id", remaining);
+        released += remaining.length;
+        break;
+      }
+      campaignIds.add(email.campaign_id);
+      if (!(await isStillSending(supabase, email.campaign_id))) {
+        // Back to the queue untouched, so resuming picks it up again
+        await supabase.from("email_logs").update({ locked_until: null }).eq("id", email.id);
+        released++;
+        continue;
+      }
+      attempted++;
+
+      let error: string | undefined;
+      let providerMessageId: string | undefined;
+      try {
+        ({ error, id: providerMessageId } = await transport.send(
+          {
+            from: email.from_address || DEFAULT_FROM,
+            to: [email.email],
+            subject: email.subject,
+            html: email.content,
+            headers: sequenceHeaders(email, `${supabaseUrl}/functions/v1/unsubscribe?token=${email.id}`),
+          },
+          { id: email.id, campaignId: email.campaign_id }
+        ));
+      } catch (sendError: unknown) {
+        error = sendError instanceof Error ? sendError.message : String(sendError);
+      }
+
+      const attempts = email.attempts + 1;
+      if (!error) {
+        sent++;
+        const sentAt = new Date();
+        await supabase
+          .from("email_logs")
+          .update({
+            status: "sent",
+            sent_at: sentAt.toISOString(),
+            provider_message_id: providerMessageId,
+            attempts,
+            locked_until: null,
+            error_message: null,
+          })
+          .eq("id", email.id);
+        await supabase.from("campaign_recipients").update({ status: "sent" }).eq("email_log_id", email.id);
+        await scheduleNextStep(supabase, email, sentAt);
+      } else if (attempts >= MAX_ATTEMPTS) {
+        failed++;
+        console.error(`Giving up on ${email.email} after ${attempts} attempts: ${error}`);
+        await supabase
+          .from("email_logs")
+          .update({ status: "failed", attempts, locked_until: null, error_message: error })
+          .eq("id", email.id);
+        await supabase.from("campaign_recipients").update({ status: "failed" }).eq("email_log_id", email.id);
+        await cancelLaterSteps(supabase, email);
+      } else {
+        // Back off a minute per attempt before it's claimed again
+        console.error(`Attempt ${attempts} failed for ${email.email}: ${error}`);
+        await supabase
+          .from("email_logs")
+          .update({
+            attempts,
+            locked_until: null,
+            error_message: error,
+            send_after: new Date(Date.now() + attempts * 60_000).toISOString(),
+          })
+          .eq("id", email.id);
+      }
+    }
+
+    // Sending campaigns with nothing sent this run are refreshed too: their last
+    // emails may have been cancelled, or sent while they were paused
+    const { data: sending } = await supabase
+      .from("email_campaigns")
+      .select("id")
+      .eq("status", "sending");
+    (sending || []).forEach((campaign: { id: string }) => campaignIds.add(campaign.id));
+    for (const campaignId of campaignIds) {
+      await updateCampaignProgress(supabase, campaignId);
+    }
+
+    console.log(`Email queue run: ${sent} sent, ${failed} failed, ${released} released (${transport.name})`);
+
+    return new Response(
+      JSON.stringify({ sent, failed, released, transport: transport.name }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    console.error("Error in process-email-queue function:", error);
+    return new Response(
+      JSON.stringify({
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : String(error),
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+serve(handler);
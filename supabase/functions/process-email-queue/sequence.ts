@@ -0,0 +1,75 @@
+// Follow-up sequences: each step after the first is queued without a send
+// time, and gets one here once the step before it has gone out.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface SequenceEmail {
+  id: string;
+  campaign_id: string;
+  recruiter_id: string;
+  step_number: number;
+  message_id: string | null;
+  thread_references: string[];
+}
+
+// delay_days after sentAt; business-day delays skip Saturdays and Sundays (UTC)
+export const followUpSendAfter = (sentAt: Date, delayDays: number, businessDays: boolean) => {
+  const due = new Date(sentAt);
+  let remaining = delayDays;
+  while (remaining > 0) {
+    due.setUTCDate(due.getUTCDate() + 1);
+    const day = due.getUTCDay();
+    if (!businessDays || (day !== 0 && day !== 6)) remaining--;
+  }
+  return due;
+};
+
+// Keeps follow-ups in the first email's thread, and lets mail clients offer a
+// one-click unsubscribe that reaches the unsubscribe function
+export const sequenceHeaders = (email: SequenceEmail, unsubscribeUrl: string) => {
+  const headers: Record<string, string> = {
+    "List-Unsubscribe": `<${unsubscribeUrl}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  };
+  if (email.message_id) headers["Message-ID"] = email.message_id;
+  if (email.thread_references.length > 0) {
+    headers["In-Reply-To"] = email.thread_references[email.thread_references.length - 1];
+    headers["References"] = email.thread_references.join(" ");
+  }
+  return headers;
+};
+
+export const scheduleNextStep = async (supabase: SupabaseClient, email: SequenceEmail, sentAt: Date) => {
+  const nextStep = email.step_number + 1;
+  const { data: step, error } = await supabase
+    .from("campaign_steps")
+    .select("delay_days, business_days")
+    .eq("campaign_id", email.campaign_id)
+    .eq("step_number", nextStep)
+    .maybeSingle();
+  if (error) {
+    console.error(`Failed to load step ${nextStep} of campaign ${email.campaign_id}:`, error);
+    return;
+  }
+  if (!step) return;
+
+  await supabase
+    .from("email_logs")
+    .update({ send_after: followUpSendAfter(sentAt, step.delay_days, step.business_days).toISOString() })
+    .eq("campaign_id", email.campaign_id)
+    .eq("recruiter_id", email.recruiter_id)
+    .eq("step_number", nextStep)
+    .eq("status", "pending")
+    .is("send_after", null);
+};
+
+// A recipient whose email couldn't be sent gets none of the later steps
+export const cancelLaterSteps = async (supabase: SupabaseClient, email: SequenceEmail) => {
+  await supabase
+    .from("email_logs")
+    .update({ status: "cancelled" })
+    .eq("campaign_id", email.campaign_id)
+    .eq("recruiter_id", email.recruiter_id)
+    .eq("status", "pending")
+    .gt("step_number", email.step_number);
+};
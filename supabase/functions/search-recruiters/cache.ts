@@ -0,0 +1,63 @@
+// Per-domain, per-provider cache of provider responses stored in the
+// provider_cache table, so searching the same company twice within the TTL
+// doesn't spend provider credits again. The query key tells apart responses
+// fetched with different limits or company names for the same domain.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const DEFAULT_TTL_HOURS = 24;
+
+export interface CachedResponse<T> {
+  payload: T;
+  fetchedAt: string;
+  ageSeconds: number;
+}
+
+export interface ProviderCache<T> {
+  get: (domain: string, provider: string, queryKey: string) => Promise<CachedResponse<T> | null>;
+  set: (domain: string, provider: string, queryKey: string, payload: T) => Promise<void>;
+}
+
+export const cacheTtlHoursFromEnv = () =>
+  Number(Deno.env.get("PROVIDER_CACHE_TTL_HOURS")) || DEFAULT_TTL_HOURS;
+
+export const createProviderCache = <T>(
+  supabase: SupabaseClient,
+  ttlHours: number = cacheTtlHoursFromEnv()
+): ProviderCache<T> => ({
+  get: async (domain: string, provider: string, queryKey: string) => {
+    const { data, error } = await supabase
+      .from("provider_cache")
+      .select("payload, fetched_at")
+      .eq("domain", domain)
+      .eq("provider", provider)
+      .eq("query_key", queryKey)
+      .maybeSingle();
+    if (error) {
+      console.error(`Error reading ${provider} cache for ${domain}:`, error);
+      return null;
+    }
+    if (!data) return null;
+
+    const ageSeconds = Math.round(
+      (Date.now() - new Date(data.fetched_at).getTime()) / 1000
+    );
+    if (ageSeconds > ttlHours * 3600) return null;
+    return { payload: data.payload as T, fetchedAt: data.fetched_at, ageSeconds };
+  },
+
+  set: async (domain: string, provider: string, queryKey: string, payload: T) => {
+    const { error } = await supabase.from("provider_cache").upsert(
+      {
+        domain,
+        provider,
+        query_key: queryKey,
+        payload,
+        fetched_at: new Date().toISOString(),
+      },
+      { onConflict: "domain,provider,query_key" }
+    );
+    if (error)
+      console.error(`Error writing ${provider} cache for ${domain}:`, error);
+  },
+});
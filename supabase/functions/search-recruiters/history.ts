@@ -0,0 +1,116 @@
+// Search history: every search is recorded in the searches table with what
+// it found, and completed searches are diffed against the previous completed
+// search of the same company so the UI can show who appeared or disappeared.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface SearchRecord {
+  input: string;
+  status: "completed" | "ambiguous" | "failed";
+  startedAt: number;
+  companyId?: string;
+  domain?: string;
+  providers?: unknown[];
+  totalFound?: number;
+  relevantCount?: number;
+  newCount?: number;
+  recruiterIds?: string[];
+  errors?: string[];
+}
+
+export interface MissingRecruiter {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string;
+  title: string | null;
+}
+
+export interface SearchDiff {
+  previousSearchId: string;
+  previousSearchAt: string;
+  added: string[];
+  missing: MissingRecruiter[];
+}
+
+const diffAgainstPrevious = async (
+  supabase: SupabaseClient,
+  companyId: string,
+  recruiterIds: string[]
+) => {
+  const { data: previous, error } = await supabase
+    .from("searches")
+    .select("id, created_at, recruiter_ids")
+    .eq("company_id", companyId)
+    .eq("status", "completed")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) console.error("Error loading previous search:", error);
+  if (!previous) return null;
+
+  const before = new Set<string>(previous.recruiter_ids || []);
+  const now = new Set(recruiterIds);
+  return {
+    previousSearchId: previous.id as string,
+    previousSearchAt: previous.created_at as string,
+    added: recruiterIds.filter((id) => !before.has(id)),
+    missingIds: [...before].filter((id) => !now.has(id)),
+  };
+};
+
+// Recording is best effort: a failure is logged and the search still returns
+export const recordSearch = async (
+  supabase: SupabaseClient,
+  record: SearchRecord
+): Promise<{ searchId?: string; diff?: SearchDiff }> => {
+  const recruiterIds = record.recruiterIds || [];
+  const diff =
+    record.status === "completed" && record.companyId
+      ? await diffAgainstPrevious(supabase, record.companyId, recruiterIds)
+      : null;
+
+  const { data, error } = await supabase
+    .from("searches")
+    .insert({
+      input: record.input,
+      status: record.status,
+      company_id: record.companyId ?? null,
+      domain: record.domain ?? null,
+      providers: record.providers ?? [],
+      total_found: record.totalFound ?? 0,
+      relevant_count: record.relevantCount ?? 0,
+      new_count: record.newCount ?? 0,
+      recruiter_ids: recruiterIds,
+      previous_search_id: diff?.previousSearchId ?? null,
+      added_recruiter_ids: diff?.added ?? [],
+      missing_recruiter_ids: diff?.missingIds ?? [],
+      errors: record.errors ?? [],
+      duration_ms: Date.now() - record.startedAt,
+    })
+    .select("id")
+    .single();
+  if (error) {
+    console.error("Error recording search:", error);
+    return {};
+  }
+  if (!diff) return { searchId: data.id };
+
+  let missing: MissingRecruiter[] = [];
+  if (diff.missingIds.length > 0) {
+    const { data: missingRows } = await supabase
+      .from("recruiters")
+      .select("id, first_name, last_name, email, title")
+      .in("id", diff.missingIds);
+    missing = missingRows || [];
+  }
+  return {
+    searchId: data.id,
+    diff: {
+      previousSearchId: diff.previousSearchId,
+      previousSearchAt: diff.previousSearchAt,
+      added: diff.added,
+      missing,
+    },
+  };
+};
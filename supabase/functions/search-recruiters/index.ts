@@ -1,5 +1,37 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { classifyContact } from "../_shared/relevance.ts";
+import { createEmailVerifier } from "../_shared/verification.ts";
+import { inferDomainPatterns, type PatternStat } from "../_shared/email-patterns.ts";
+import { resolveCompany } from "../_shared/company-resolution.ts";
+import {
+  createEnrichmentProviders,
+  enrichCompany,
+  isEnrichmentStale,
+} from "../_shared/enrichment.ts";
+import { createProviderCache, type ProviderCache } from "./cache.ts";
+import { mergeContacts, type MergedContact, type RawContact } from "./merge.ts";
+import { summarizeSources } from "./sources.ts";
+import { saveRecruiters, type SavedRecruiter } from "./persist.ts";
+import { recordSearch } from "./history.ts";
+import {
+  classifyProviderError,
+  describeProviderStatus,
+  PROVIDER_API_KEYS,
+  providerHttpError,
+  type ProviderStatus,
+} from "./provider-status.ts";
+import {
+  createUsageLedger,
+  QuotaExceededError,
+  type UsageLedger,
+} from "../_shared/provider-usage.ts";
+import {
+  isMockMode,
+  mockCompanyFor,
+  mockEmailFor,
+  MOCK_PROVIDER_NAME,
+} from "../_shared/mock.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,26 +41,215 @@ const corsHeaders = {
 
 interface SearchRequest {
   companyInput: string;
+  // Name of the candidate the user picked when the input was ambiguous
+  companyName?: string;
+  // Skip cached provider responses and query every provider again
+  forceRefresh?: boolean;
+  // Overrides PROVIDER_CACHE_TTL_HOURS for this search
+  cacheTtlHours?: number;
+  // Verify addresses (MX, SMTP, catch-all) before storing them; on by default
+  verifyEmails?: boolean;
+  // Overrides PROVIDER_MAX_RESULTS: most contacts to page through per provider
+  maxResultsPerProvider?: number;
+  // Overrides PROVIDER_TARGET_RELEVANT: stop paging once this many relevant contacts are found
+  targetRelevant?: number;
+  // Respond with a text/event-stream of progress events, ending with "result" or "error"
+  stream?: boolean;
 }
 
-interface RawContact {
-  email: string;
-  firstName?: string;
-  lastName?: string;
-  title?: string;
+interface ProviderResult {
+  contacts: RawContact[];
+  error?: string;
+  // How the failure behind error was classified
+  errorStatus?: ProviderStatus;
+  // Set by providers that resolve the company on their side (currently Apollo.io)
+  apolloCompanyId?: string;
+}
+
+// Progress reported after each page a provider returns
+interface PageProgress {
+  page: number;
+  // Contacts on this page
+  fetched: number;
+  // Contacts collected so far, and how many of them are recruiting-relevant
+  total: number;
+  relevant: number;
+}
+
+interface PaginationOptions {
+  maxResults: number;
+  targetRelevant: number;
+  onPage?: (progress: PageProgress) => void;
+}
+
+// How each provider's contacts were obtained for this search
+interface ProviderRun {
   provider: string;
+  status: ProviderStatus;
+  // What the user can do about a status other than ok, shown by the client
+  message?: string;
+  fromCache: boolean;
+  // Not queried because the provider is over its budget
+  skipped?: boolean;
+  fetchedAt: string;
+  ageSeconds: number;
+  contacts: number;
+  // Pages fetched on a live run
+  pages?: PageProgress[];
+  error?: string;
+}
+
+// Progress events emitted while a search runs; streamed to the client in stream mode
+type SearchEvent =
+  | {
+      type: "company_resolved";
+      company: { id: string; name: string; domain: string; source: string };
+    }
+  | { type: "provider_started"; provider: string }
+  | { type: "provider_page"; provider: string; progress: PageProgress }
+  | { type: "provider_finished"; run: ProviderRun }
+  | { type: "recruiter_saved"; recruiter: ReturnType<typeof toResponseRecruiter> };
+
+type EmitSearchEvent = (event: SearchEvent) => void;
+
+interface ApolloPerson {
+  id: string;
+  first_name?: string;
+  last_name?: string;
+  title?: string;
+  departments?: string[];
+  linkedin_url?: string | null;
+  email?: string | null;
+  email_status?: string | null;
 }
 
 interface EmailProvider {
   name: string;
+  // Set by providers that search by company name rather than domain, so the
+  // name is part of what their cached responses are keyed on
+  queriesByCompanyName?: boolean;
   // --- CHANGE 1: The function now accepts companyName for more accurate searches ---
   findAllEmails: (
     domain: string,
-    companyName: string
-  ) => Promise<{ contacts: RawContact[]; error?: string }>;
+    companyName: string,
+    pagination: PaginationOptions
+  ) => Promise<ProviderResult>;
 }
 
-const createEmailProviders = (): EmailProvider[] => {
+const DEFAULT_MAX_RESULTS = 500;
+const DEFAULT_TARGET_RELEVANT = 50;
+
+// Largest page each provider's API accepts
+const HUNTER_PAGE_SIZE = 100;
+const ROCKETREACH_PAGE_SIZE = 100;
+const APOLLO_PAGE_SIZE = 100;
+
+// Titles used to narrow Apollo.io people searches down to the talent-acquisition team
+const APOLLO_RECRUITING_TITLES = [
+  "recruiter",
+  "technical recruiter",
+  "talent acquisition",
+  "talent partner",
+  "sourcer",
+  "recruiting coordinator",
+  "recruiting manager",
+  "head of talent",
+  "people operations",
+  "human resources",
+];
+
+// Provider-reported deliverability mapped onto a 0-100 confidence
+const ROCKETREACH_GRADE_CONFIDENCE: Record<string, number> = {
+  A: 95,
+  "A-": 90,
+  B: 75,
+  "B-": 65,
+  C: 50,
+  D: 30,
+  F: 10,
+};
+
+const APOLLO_EMAIL_STATUS_CONFIDENCE: Record<string, number> = {
+  verified: 95,
+  likely_to_engage: 80,
+  guessed: 50,
+  unavailable: 20,
+};
+
+// Apollo.io masks emails it hasn't revealed yet with this placeholder
+const isUsableApolloEmail = (email?: string | null): email is string =>
+  !!email && email.includes("@") && !email.startsWith("email_not_unlocked");
+
+// Pages through a provider's results until it runs out, maxResults contacts
+// are collected or targetRelevant of them are recruiting-relevant. A failed
+// page ends the run but keeps the contacts from earlier pages.
+const collectPages = async (
+  pagination: PaginationOptions,
+  fetchPage: (page: number) => Promise<{ contacts: RawContact[]; hasMore: boolean }>
+): Promise<ProviderResult> => {
+  const contacts: RawContact[] = [];
+  let relevant = 0;
+  for (let page = 1; ; page++) {
+    let result: { contacts: RawContact[]; hasMore: boolean };
+    try {
+      result = await fetchPage(page);
+    } catch (error) {
+      return { contacts, error: error.message, errorStatus: classifyProviderError(error) };
+    }
+
+    const remaining = pagination.maxResults - contacts.length;
+    const pageContacts = result.contacts.slice(0, remaining);
+    contacts.push(...pageContacts);
+    relevant += pageContacts.filter(
+      (contact) => classifyContact(contact.title, contact.department).category !== "other"
+    ).length;
+    pagination.onPage?.({
+      page,
+      fetched: pageContacts.length,
+      total: contacts.length,
+      relevant,
+    });
+
+    if (
+      !result.hasMore ||
+      result.contacts.length === 0 ||
+      contacts.length >= pagination.maxResults ||
+      relevant >= pagination.targetRelevant
+    )
+      return { contacts };
+  }
+};
+
+// Every provider call goes through the usage ledger for rate limiting and budgets
+// knownApolloCompanyId settles with the Apollo organization id when the caller
+// already has or is fetching it, or with undefined for Apollo to look it up
+const createEmailProviders = (
+  ledger: UsageLedger,
+  knownApolloCompanyId: Promise<string | undefined> = Promise.resolve(undefined)
+): EmailProvider[] => {
+  // MOCK_MODE replaces every real provider with fixture data and never touches the network
+  if (isMockMode()) {
+    return [
+      {
+        name: MOCK_PROVIDER_NAME,
+        findAllEmails: (domain: string, _companyName: string, pagination: PaginationOptions) =>
+          collectPages(pagination, async () => ({
+            contacts: mockCompanyFor(domain).contacts.map((contact) => ({
+              email: mockEmailFor(contact, domain),
+              firstName: contact.firstName,
+              lastName: contact.lastName,
+              title: contact.title,
+              department: contact.department,
+              confidence: contact.confidence,
+              provider: MOCK_PROVIDER_NAME,
+              raw: contact,
+            })),
+            hasMore: false,
+          })),
+      },
+    ];
+  }
+
   const providers: EmailProvider[] = [];
 
   // Hunter.io Provider (mostly uses domain, so it's less affected but we'll keep the signature consistent)
@@ -36,34 +257,35 @@ const createEmailProviders = (): EmailProvider[] => {
   if (hunterApiKey) {
     providers.push({
       name: "Hunter.io",
-      findAllEmails: async (domain: string, _companyName: string) => {
+      findAllEmails: (domain: string, _companyName: string, pagination: PaginationOptions) =>
         // companyName is ignored here
-        try {
-          const response = await fetch(
-            `https://api.hunter.io/v2/domain-search?domain=${domain}&api_key=${hunterApiKey}`,
+        collectPages(pagination, async (page) => {
+          const offset = (page - 1) * HUNTER_PAGE_SIZE;
+          const response = await ledger.fetch(
+            "Hunter.io",
+            "domain-search",
+            `https://api.hunter.io/v2/domain-search?domain=${domain}&limit=${HUNTER_PAGE_SIZE}&offset=${offset}&api_key=${hunterApiKey}`,
             { method: "GET" }
           );
-          if (!response.ok)
-            return {
-              contacts: [],
-              error: `Hunter.io API error: HTTP ${response.status}`,
-            };
+          if (!response.ok) throw providerHttpError("Hunter.io", response.status);
           const data = await response.json();
           const contacts: RawContact[] = [];
           data.data?.emails?.forEach((emailInfo: any) => {
             contacts.push({
               email: emailInfo.value,
-              firstName: emailInfo.first_name || "Contact",
-              lastName: emailInfo.last_name || "Person",
-              title: emailInfo.position || "Employee",
+              firstName: emailInfo.first_name || undefined,
+              lastName: emailInfo.last_name || undefined,
+              title: emailInfo.position || undefined,
+              department: emailInfo.department || undefined,
+              linkedinUrl: emailInfo.linkedin || undefined,
+              raw: emailInfo,
+              confidence: emailInfo.confidence ?? undefined,
               provider: "Hunter.io",
             });
           });
-          return { contacts };
-        } catch (error) {
-          return { contacts: [], error: error.message };
-        }
-      },
+          const total: number = data.meta?.results ?? 0;
+          return { contacts, hasMore: offset + contacts.length < total };
+        }),
     });
   }
 
@@ -72,11 +294,15 @@ const createEmailProviders = (): EmailProvider[] => {
   if (rocketreachApiKey) {
     providers.push({
       name: "RocketReach",
+      queriesByCompanyName: true,
       // --- CHANGE 2: This function now uses the accurate companyName for its query ---
-      findAllEmails: async (domain: string, companyName: string) => {
-        try {
+      findAllEmails: (domain: string, companyName: string, pagination: PaginationOptions) =>
+        collectPages(pagination, async (page) => {
           // We use a broader query here to increase chances of finding someone
-          const response = await fetch(
+          const start = (page - 1) * ROCKETREACH_PAGE_SIZE + 1;
+          const response = await ledger.fetch(
+            "RocketReach",
+            "search",
             "https://api.rocketreach.co/v2/api/search",
             {
               method: "POST",
@@ -84,26 +310,23 @@ const createEmailProviders = (): EmailProvider[] => {
                 "Content-Type": "application/json",
                 "Api-Key": rocketreachApiKey,
               },
-               body: JSON.stringify({
-                 query: {
-                   // Using companyName is more reliable than domain parts
-                   current_employer: [companyName],
-                 },
-                 start: 1,
-                 size: 100, // Get up to 100 profiles to maximize results
-               }),
+              body: JSON.stringify({
+                query: {
+                  // Using companyName is more reliable than domain parts
+                  current_employer: [companyName],
+                },
+                start,
+                size: ROCKETREACH_PAGE_SIZE,
+              }),
             }
           );
 
-          if (!response.ok)
-            return {
-              contacts: [],
-              error: `RocketReach API error: HTTP ${response.status}`,
-            };
+          if (!response.ok) throw providerHttpError("RocketReach", response.status);
 
           const data = await response.json();
+          const profiles = data.profiles || [];
           const contacts: RawContact[] = [];
-          data.profiles?.forEach((profile: any) => {
+          profiles.forEach((profile: any) => {
             if (
               profile.emails &&
               profile.emails.length > 0 &&
@@ -111,16 +334,174 @@ const createEmailProviders = (): EmailProvider[] => {
             ) {
               contacts.push({
                 email: profile.emails[0].email,
-                firstName: profile.first_name || "HR",
-                lastName: profile.last_name || "Contact",
-                title: profile.current_title || "Recruiter",
+                firstName: profile.first_name || undefined,
+                lastName: profile.last_name || undefined,
+                title: profile.current_title || undefined,
+                linkedinUrl: profile.linkedin_url || undefined,
+                raw: profile,
+                confidence: ROCKETREACH_GRADE_CONFIDENCE[profile.emails[0].grade],
                 provider: "RocketReach",
               });
             }
           });
-          return { contacts };
+          const total: number = data.pagination?.total ?? 0;
+          // Profiles without an email still count towards the page, so page on profiles
+          return {
+            contacts,
+            hasMore: profiles.length > 0 && start + profiles.length - 1 < total,
+          };
+        }),
+    });
+  }
+
+  // Apollo.io Provider (resolves the organization first, then searches its people by recruiting titles)
+  const apolloApiKey = Deno.env.get("APOLLO_API_KEY");
+  if (apolloApiKey) {
+    // APOLLO_API_URL lets the provider run against a local stub server
+    const apolloBaseUrl = (
+      Deno.env.get("APOLLO_API_URL") || "https://api.apollo.io"
+    ).replace(/\/+$/, "");
+    const apolloFetch = (
+      operation: string,
+      path: string,
+      init: RequestInit = {},
+      credits = 1
+    ) =>
+      ledger.fetch(
+        "Apollo.io",
+        operation,
+        `${apolloBaseUrl}${path}`,
+        {
+          ...init,
+          headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": "no-cache",
+            "X-Api-Key": apolloApiKey,
+          },
+        },
+        credits
+      );
+
+    // Reveals emails the search returned masked (bulk_match takes 10 people per call)
+    const revealApolloEmails = async (people: ApolloPerson[], companyName: string) => {
+      const revealedEmails = new Map<string, ApolloPerson>();
+      const locked = people.filter(
+        (person) => person.id && !isUsableApolloEmail(person.email)
+      );
+      for (let i = 0; i < locked.length; i += 10) {
+        const batch = locked.slice(i, i + 10);
+        let matchResponse: Response;
+        try {
+          // Each revealed person costs one credit
+          matchResponse = await apolloFetch(
+            "people/bulk_match",
+            "/api/v1/people/bulk_match?reveal_personal_emails=false",
+            {
+              method: "POST",
+              body: JSON.stringify({
+                details: batch.map((person) => ({ id: person.id })),
+              }),
+            },
+            batch.length
+          );
         } catch (error) {
-          return { contacts: [], error: error.message };
+          // Out of budget mid-way: keep what was already revealed
+          if (error instanceof QuotaExceededError) {
+            console.error(error.message);
+            break;
+          }
+          throw error;
+        }
+        if (!matchResponse.ok) {
+          console.error(
+            `Apollo.io bulk_match error for ${companyName}: HTTP ${matchResponse.status}`
+          );
+          continue;
+        }
+        const matchData = await matchResponse.json();
+        (matchData.matches || []).forEach((match: ApolloPerson | null) => {
+          if (match?.id && isUsableApolloEmail(match.email))
+            revealedEmails.set(match.id, match);
+        });
+      }
+      return revealedEmails;
+    };
+
+    providers.push({
+      name: "Apollo.io",
+      findAllEmails: async (domain: string, companyName: string, pagination: PaginationOptions) => {
+        try {
+          // Step 1: Resolve the organization so the people search is scoped to it,
+          // unless company enrichment already paid for that lookup
+          let apolloCompanyId = await knownApolloCompanyId;
+          if (!apolloCompanyId) {
+            const orgResponse = await apolloFetch(
+              "organizations/enrich",
+              `/api/v1/organizations/enrich?domain=${encodeURIComponent(domain)}`,
+              { method: "GET" }
+            );
+            if (!orgResponse.ok) throw providerHttpError("Apollo.io", orgResponse.status);
+            const orgData = await orgResponse.json();
+            apolloCompanyId = orgData.organization?.id;
+          }
+
+          // Step 2: Search people at the organization with recruiting titles, a page at a
+          // time, revealing each page's emails before deciding whether to fetch the next
+          const result = await collectPages(pagination, async (page) => {
+            const peopleResponse = await apolloFetch(
+              "mixed_people/search",
+              "/api/v1/mixed_people/search",
+              {
+                method: "POST",
+                body: JSON.stringify({
+                  ...(apolloCompanyId
+                    ? { organization_ids: [apolloCompanyId] }
+                    : { q_organization_domains: domain }),
+                  person_titles: APOLLO_RECRUITING_TITLES,
+                  page,
+                  per_page: APOLLO_PAGE_SIZE,
+                }),
+              }
+            );
+            if (!peopleResponse.ok)
+              throw providerHttpError("Apollo.io", peopleResponse.status);
+            const peopleData = await peopleResponse.json();
+            const people: ApolloPerson[] = peopleData.people || [];
+
+            // Step 3: Reveal the emails that came back masked
+            const revealedEmails = await revealApolloEmails(people, companyName);
+
+            const contacts: RawContact[] = [];
+            people.forEach((person) => {
+              const revealed = isUsableApolloEmail(person.email)
+                ? person
+                : revealedEmails.get(person.id);
+              const email = revealed?.email;
+              if (!email) return;
+              contacts.push({
+                email,
+                firstName: person.first_name || undefined,
+                lastName: person.last_name || undefined,
+                // The people search only matches recruiting titles
+                title: person.title || "Recruiter",
+                department: person.departments?.[0],
+                linkedinUrl: person.linkedin_url || undefined,
+                raw: revealed,
+                confidence: APOLLO_EMAIL_STATUS_CONFIDENCE[revealed.email_status || ""],
+                apolloContactId: person.id,
+                provider: "Apollo.io",
+              });
+            });
+            const totalPages: number = peopleData.pagination?.total_pages ?? 1;
+            return { contacts, hasMore: people.length > 0 && page < totalPages };
+          });
+          return { ...result, apolloCompanyId };
+        } catch (error) {
+          return {
+            contacts: [],
+            error: error.message,
+            errorStatus: classifyProviderError(error),
+          };
         }
       },
     });
@@ -132,69 +513,222 @@ const createEmailProviders = (): EmailProvider[] => {
 // --- CHANGE 3: The main finder function now accepts and passes companyName ---
 const findAllEmailsFromDomain = async (
   domain: string,
-  companyName: string
-): Promise<RawContact[]> => {
-  const providers = createEmailProviders();
+  companyName: string,
+  cache: ProviderCache<ProviderResult>,
+  ledger: UsageLedger,
+  limits: Omit<PaginationOptions, "onPage">,
+  forceRefresh = false,
+  emit: EmitSearchEvent = () => {},
+  knownApolloCompanyId?: Promise<string | undefined>
+): Promise<{
+  contacts: MergedContact[];
+  apolloCompanyId?: string;
+  providerRuns: ProviderRun[];
+}> => {
+  const providers = createEmailProviders(ledger, knownApolloCompanyId);
+  const providerRuns: ProviderRun[] = [];
+  const finishRun = (run: ProviderRun) => {
+    providerRuns.push(run);
+    emit({ type: "provider_finished", run });
+  };
+
+  // Providers without a key are reported too, so the client can say how to enable them
+  if (!isMockMode()) {
+    Object.keys(PROVIDER_API_KEYS)
+      .filter((name) => !providers.some((provider) => provider.name === name))
+      .forEach((name) =>
+        finishRun({
+          provider: name,
+          status: "not_configured",
+          message: describeProviderStatus(name, "not_configured"),
+          fromCache: false,
+          fetchedAt: new Date().toISOString(),
+          ageSeconds: 0,
+          contacts: 0,
+        })
+      );
+  }
   if (providers.length === 0) {
     console.log("No email providers configured.");
-    return [];
+    return { contacts: [], providerRuns };
   }
-
-  // Pass both domain and companyName to each provider
+  // Pass both domain and companyName to each provider, serving fresh cached responses first.
+  // Responses are cut to the limits, so a search with other limits doesn't reuse them.
   const results = await Promise.all(
-    providers.map((provider) => {
+    providers.map(async (provider) => {
+      const queryKey = [
+        `max=${limits.maxResults}`,
+        `relevant=${limits.targetRelevant}`,
+        ...(provider.queriesByCompanyName ? [`name=${companyName.trim().toLowerCase()}`] : []),
+      ].join(";");
+      const cached = forceRefresh ? null : await cache.get(domain, provider.name, queryKey);
+      if (cached) {
+        console.log(
+          `Using cached ${provider.name} results for ${domain} (${cached.ageSeconds}s old)`
+        );
+        const status = cached.payload.contacts.length > 0 ? "ok" : "empty";
+        finishRun({
+          provider: provider.name,
+          status,
+          message: describeProviderStatus(provider.name, status),
+          fromCache: true,
+          fetchedAt: cached.fetchedAt,
+          ageSeconds: cached.ageSeconds,
+          contacts: cached.payload.contacts.length,
+        });
+        return {
+          ...cached.payload,
+          contacts: cached.payload.contacts.map((contact) => ({
+            ...contact,
+            cachedAt: cached.fetchedAt,
+          })),
+        };
+      }
+
+      const budget = await ledger.checkBudget(provider.name);
+      if (!budget.allowed) {
+        console.log(budget.reason);
+        finishRun({
+          provider: provider.name,
+          status: "rate_limited",
+          message: `${budget.reason}. Raise its budget under Settings to search it sooner.`,
+          fromCache: false,
+          skipped: true,
+          fetchedAt: new Date().toISOString(),
+          ageSeconds: 0,
+          contacts: 0,
+          error: budget.reason,
+        });
+        return { contacts: [] };
+      }
+
       console.log(`Querying ${provider.name} for company: ${companyName}`);
-      return provider.findAllEmails(domain, companyName);
+      emit({ type: "provider_started", provider: provider.name });
+      const pages: PageProgress[] = [];
+      const result = await provider.findAllEmails(domain, companyName, {
+        ...limits,
+        onPage: (progress) => {
+          console.log(
+            `${provider.name} page ${progress.page}: ${progress.fetched} contacts (${progress.total} so far, ${progress.relevant} relevant)`
+          );
+          pages.push(progress);
+          emit({ type: "provider_page", provider: provider.name, progress });
+        },
+      });
+      // Failed calls aren't cached so the next search retries them
+      if (!result.error) await cache.set(domain, provider.name, queryKey, result);
+      const status: ProviderStatus = result.error
+        ? result.errorStatus ?? "error"
+        : result.contacts.length > 0
+          ? "ok"
+          : "empty";
+      finishRun({
+        provider: provider.name,
+        status,
+        message: describeProviderStatus(provider.name, status, result.error),
+        fromCache: false,
+        fetchedAt: new Date().toISOString(),
+        ageSeconds: 0,
+        contacts: result.contacts.length,
+        pages,
+        error: result.error,
+      });
+      return result;
     })
   );
 
-  const uniqueContacts = new Map<string, RawContact>();
+  let apolloCompanyId: string | undefined;
   results.forEach((result) => {
-    result.contacts?.forEach((contact) => {
-      if (contact.email && !uniqueContacts.has(contact.email)) {
-        uniqueContacts.set(contact.email, contact);
-      }
-    });
+    if (result.apolloCompanyId) apolloCompanyId = result.apolloCompanyId;
     if (result.error) console.error(result.error);
   });
 
-  return Array.from(uniqueContacts.values());
+  // Combine each person's fields across providers rather than keeping the first hit
+  return {
+    contacts: mergeContacts(results.flatMap((result) => result.contacts || [])),
+    apolloCompanyId,
+    providerRuns,
+  };
 };
 
-const handler = async (req: Request): Promise<Response> => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
+// A saved recruiter as returned to the client, with how this search found it
+const toResponseRecruiter = ({ recruiter, contact, status }: SavedRecruiter) => ({
+  ...recruiter,
+  email_provider: contact.provider,
+  sources: summarizeSources(contact),
+  cached_at: contact.cachedAt ?? null,
+  status,
+});
+
+// Runs one search, reporting progress through emit, and returns the HTTP
+// status and body of the final result
+const runSearch = async (
+  request: SearchRequest,
+  emit: EmitSearchEvent
+): Promise<{ status: number; body: Record<string, unknown> }> => {
+  const startedAt = Date.now();
+  // Set once the request is parsed, so failures are recorded in the search history too
+  let recordFailure: ((message: string) => Promise<unknown>) | null = null;
 
   try {
-    const { companyInput }: SearchRequest = await req.json();
+    const {
+      companyInput,
+      companyName: pickedName,
+      verifyEmails = true,
+      forceRefresh = false,
+      cacheTtlHours,
+      maxResultsPerProvider,
+      targetRelevant,
+    } = request;
     if (!companyInput) {
-      return new Response(
-        JSON.stringify({ error: "Company name or domain is required" }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        }
-      );
+      return {
+        status: 400,
+        body: { error: "Company name or domain is required" },
+      };
     }
 
-    const isDomain = companyInput.includes(".");
-    const domain = isDomain
-      ? companyInput.toLowerCase()
-      : `${companyInput.toLowerCase().replace(/[\s,.]+/g, "")}.com`;
-    const companyName = isDomain
-      ? domain.split(".")[0].charAt(0).toUpperCase() +
-        domain.split(".")[0].slice(1)
-      : companyInput;
-
-    console.log(
-      `Searching for recruiters - Company: ${companyName}, Domain: ${domain}`
-    );
-
     const supabase = createClient(
       Deno.env.get("SUPABASE_URL")!,
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
     );
+    const searched: { companyId?: string; domain?: string } = {};
+    recordFailure = (message: string) =>
+      recordSearch(supabase, {
+        input: companyInput,
+        status: "failed",
+        startedAt,
+        ...searched,
+        errors: [message],
+      });
+
+    const resolution = await resolveCompany(supabase, companyInput);
+    if (resolution.status === "unresolved") {
+      const message = `Couldn't work out a domain for "${companyInput}". Enter the company's website instead.`;
+      await recordFailure(message);
+      return { status: 400, body: { error: message } };
+    }
+    if (resolution.status === "ambiguous") {
+      await recordSearch(supabase, {
+        input: companyInput,
+        status: "ambiguous",
+        startedAt,
+      });
+      return {
+        status: 200,
+        body: {
+          needsSelection: true,
+          candidates: resolution.candidates,
+          message: `"${companyInput}" matches several companies. Pick one to continue.`,
+        },
+      };
+    }
+    const { domain } = resolution.company;
+    searched.domain = domain;
+    const companyName = pickedName?.trim() || resolution.company.name;
+
+    console.log(
+      `Searching for recruiters - Company: ${companyName}, Domain: ${domain} (${resolution.company.source})`
+    );
 
     let { data: companyRecord } = await supabase
       .from("companies")
@@ -205,87 +739,242 @@ const handler = async (req: Request): Promise<Response> => {
     if (!companyRecord) {
       const { data: newCompany, error } = await supabase
         .from("companies")
-        .insert({ name: companyName, domain, location: "United States" })
+        .insert({ name: companyName, domain })
         .select()
         .single();
       if (error) throw new Error(`Failed to create company: ${error.message}`);
       companyRecord = newCompany;
     }
+    searched.companyId = companyRecord.id;
+    emit({
+      type: "company_resolved",
+      company: {
+        id: companyRecord.id,
+        name: companyRecord.name,
+        domain,
+        source: resolution.company.source,
+      },
+    });
 
     // --- CHANGE 4: Pass both domain and companyName to the finder function ---
-    const allFoundContacts = await findAllEmailsFromDomain(domain, companyName);
+    // Firmographics are refreshed alongside the contact search once they go stale
+    const cache = createProviderCache<ProviderResult>(supabase, cacheTtlHours);
+    const ledger = createUsageLedger(supabase);
+    const limits = {
+      maxResults:
+        maxResultsPerProvider ||
+        Number(Deno.env.get("PROVIDER_MAX_RESULTS")) ||
+        DEFAULT_MAX_RESULTS,
+      targetRelevant:
+        targetRelevant ||
+        Number(Deno.env.get("PROVIDER_TARGET_RELEVANT")) ||
+        DEFAULT_TARGET_RELEVANT,
+    };
+    const enrichmentRun = isEnrichmentStale(companyRecord.enriched_at)
+      ? enrichCompany(
+          supabase,
+          companyRecord,
+          createEnrichmentProviders(ledger)
+        ).catch((error) => {
+          console.error("Company enrichment failed:", error);
+          return null;
+        })
+      : Promise.resolve(null);
+    // Apollo's people search reuses the organization id enrichment looks up
+    // rather than paying for organizations/enrich a second time
+    const knownApolloCompanyId: Promise<string | undefined> = companyRecord.apollo_company_id
+      ? Promise.resolve(companyRecord.apollo_company_id)
+      : enrichmentRun.then((result) => result?.company?.apollo_company_id || undefined);
+    const [{ contacts: allFoundContacts, apolloCompanyId, providerRuns }, enrichment] =
+      await Promise.all([
+        findAllEmailsFromDomain(
+          domain,
+          companyName,
+          cache,
+          ledger,
+          limits,
+          forceRefresh,
+          emit,
+          knownApolloCompanyId
+        ),
+        enrichmentRun,
+      ]);
+    if (enrichment?.company) companyRecord = enrichment.company;
+    if (apolloCompanyId && companyRecord.apollo_company_id !== apolloCompanyId) {
+      const { data: updatedCompany } = await supabase
+        .from("companies")
+        .update({ apollo_company_id: apolloCompanyId })
+        .eq("id", companyRecord.id)
+        .select()
+        .single();
+      if (updatedCompany) companyRecord = updatedCompany;
+    }
     console.log(
       `Found a total of ${allFoundContacts.length} unique potential contacts from all providers.`
     );
 
-    const recruiters: any[] = [];
-    if (allFoundContacts.length > 0) {
-      for (const contact of allFoundContacts) {
-        const { data: existingRecruiter } = await supabase
-          .from("recruiters")
-          .select("*")
-          .eq("company_id", companyRecord.id)
-          .eq("email", contact.email)
-          .maybeSingle();
-
-        if (existingRecruiter) {
-          recruiters.push({
-            ...existingRecruiter,
-            email_provider: contact.provider,
-            status: "existing",
-          });
-        } else {
-          const { data: newRecruiter, error } = await supabase
-            .from("recruiters")
-            .insert({
-              company_id: companyRecord.id,
-              first_name: contact.firstName,
-              last_name: contact.lastName,
-              email: contact.email,
-              title: contact.title,
-              email_status: "valid",
-            })
-            .select()
-            .single();
-
-          if (error)
-            console.error(`Error creating recruiter ${contact.email}:`, error);
-          else if (newRecruiter)
-            recruiters.push({
-              ...newRecruiter,
-              email_provider: contact.provider,
-              status: "new",
-            });
-        }
-      }
+    const verifier = verifyEmails ? createEmailVerifier() : null;
+    const verifyContact = async (contact: RawContact) => {
+      const verification = await verifier!.verify(
+        contact.email,
+        contact.confidence
+      );
+      return {
+        email_status: verification.status,
+        email_verification: {
+          checks: verification.checks,
+          reasons: verification.reasons,
+        },
+        email_verified_at: new Date().toISOString(),
+      };
+    };
+
+    // One lookup, then batched upserts, instead of a round trip per contact
+    const { saved, failed } = await saveRecruiters(
+      supabase,
+      companyRecord.id,
+      allFoundContacts,
+      verifier ? verifyContact : null,
+      (batch) =>
+        batch.forEach((entry) =>
+          emit({ type: "recruiter_saved", recruiter: toResponseRecruiter(entry) })
+        )
+    );
+    const recruiters = saved.map(toResponseRecruiter);
+
+    // Rank the most recruiting-relevant contacts first
+    recruiters.sort(
+      (a, b) => (b.relevance_score ?? 0) - (a.relevance_score ?? 0)
+    );
+    const relevantCount = recruiters.filter(
+      (recruiter) => recruiter.relevance_category !== "other"
+    ).length;
+
+    // With nothing from the providers, report the company's address format so
+    // the user can generate addresses for people they know by name
+    let emailPatterns: PatternStat[] = [];
+    if (recruiters.length === 0) {
+      const { data: storedContacts } = await supabase
+        .from("recruiters")
+        .select("email, first_name, last_name")
+        .eq("company_id", companyRecord.id)
+        .neq("email_source", "inferred");
+      emailPatterns = inferDomainPatterns(storedContacts || [], domain);
     }
 
-    const message =
+    let message =
       recruiters.length > 0
-        ? `Found and processed ${recruiters.length} recruiter contacts.`
-        : "No recruiter emails were found by the configured providers.";
-    return new Response(
-      JSON.stringify({
+        ? `Found and processed ${recruiters.length} contacts, ${relevantCount} of them in recruiting or HR.`
+        : "No recruiter emails were found by the configured providers. Add people you know by name to generate their likely addresses.";
+    if (failed.length > 0)
+      message += ` ${failed.length} contacts could not be saved.`;
+
+    const { searchId, diff } = await recordSearch(supabase, {
+      input: companyInput,
+      status: "completed",
+      startedAt,
+      companyId: companyRecord.id,
+      domain,
+      providers: providerRuns,
+      totalFound: recruiters.length,
+      relevantCount,
+      newCount: recruiters.filter((recruiter) => recruiter.status === "new").length,
+      recruiterIds: recruiters.map((recruiter) => recruiter.id),
+      errors: [
+        ...providerRuns.flatMap((run) => (run.error ? [`${run.provider}: ${run.error}`] : [])),
+        ...failed.map((failure) => `${failure.email}: ${failure.error}`),
+      ],
+    });
+
+    return {
+      status: 200,
+      body: {
+        searchId,
+        diff,
         company: companyRecord,
         recruiters,
         totalFound: recruiters.length,
+        relevantCount,
+        emailPatterns,
+        failed,
+        providers: providerRuns,
+        resolution: {
+          source: resolution.company.source,
+          candidates: resolution.candidates,
+        },
         message,
-      }),
-      { headers: { "Content-Type": "application/json", ...corsHeaders } }
-    );
+      },
+    };
   } catch (error) {
     console.error("Error in handler function:", error);
-    return new Response(
-      JSON.stringify({
+    await recordFailure?.(error.message);
+    return {
+      status: 500,
+      body: {
         error: "Internal server error",
         details: error.message,
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      },
+    };
+  }
+};
+
+// Server-sent events: one per SearchEvent, then "result" with the same body the
+// JSON response would have, or "error"
+const streamSearch = (request: SearchRequest): Response => {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(
+            encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+          );
+        } catch {
+          // The client went away; the search still finishes and is recorded
+        }
+      };
+      const { status, body } = await runSearch(request, ({ type, ...data }) =>
+        send(type, data)
+      );
+      send(status === 200 ? "result" : "error", body);
+      try {
+        controller.close();
+      } catch {
+        // Already closed by the client disconnecting
       }
-    );
+    },
+  });
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  });
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let request: SearchRequest;
+  try {
+    request = await req.json();
+  } catch {
+    return new Response(JSON.stringify({ error: "Invalid JSON body" }), {
+      status: 400,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
   }
+
+  if (request.stream) return streamSearch(request);
+
+  const { status, body } = await runSearch(request, () => {});
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
 };
 
 serve(handler);
@@ -0,0 +1,154 @@
+// Merges the contacts returned by every provider into one record per person.
+// Contacts are the same person when they share an email address or a full
+// name; each field is then taken from the most confident provider that has
+// it, and the provider that supplied each field is kept as provenance.
+
+import {
+  isPlaceholderName,
+  normalizeNamePart,
+} from "../_shared/email-patterns.ts";
+
+export interface RawContact {
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  title?: string;
+  department?: string;
+  linkedinUrl?: string;
+  apolloContactId?: string;
+  // Provider's own confidence that the address is deliverable (0-100)
+  confidence?: number;
+  provider: string;
+  // Set when the contact came from a cached provider response
+  cachedAt?: string;
+  // The provider's record for this person, as returned by its API
+  raw?: unknown;
+}
+
+const MERGED_FIELDS = [
+  "email",
+  "firstName",
+  "lastName",
+  "title",
+  "department",
+  "linkedinUrl",
+  "apolloContactId",
+] as const;
+
+export type MergedField = (typeof MERGED_FIELDS)[number];
+
+export interface MergedContact extends RawContact {
+  // Every provider that returned this person, most confident first
+  providers: string[];
+  // Which provider each field was taken from
+  fieldSources: Partial<Record<MergedField, string>>;
+  // Other addresses providers reported for the same person
+  alternateEmails: string[];
+  // The provider contacts this record was merged from
+  sources: RawContact[];
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const nameKey = (contact: RawContact) => {
+  if (isPlaceholderName(contact.firstName, contact.lastName)) return null;
+  const first = normalizeNamePart(contact.firstName);
+  const last = normalizeNamePart(contact.lastName);
+  return first && last ? `${first} ${last}` : null;
+};
+
+// Providers agreeing on an address raise confidence in it: each provider's
+// confidence is treated as an independent chance that the address is right.
+export const combineConfidence = (confidences: (number | undefined)[]) => {
+  const known = confidences.filter((value): value is number => value != null);
+  if (known.length === 0) return undefined;
+  const missAll = known.reduce(
+    (product, value) => product * (1 - Math.min(Math.max(value, 0), 100) / 100),
+    1
+  );
+  return Math.round((1 - missAll) * 100);
+};
+
+const mergeGroup = (group: RawContact[]): MergedContact => {
+  // Most confident provider first, so its values win ties
+  const ranked = [...group].sort(
+    (a, b) => (b.confidence ?? -1) - (a.confidence ?? -1)
+  );
+
+  // The address most providers agree on, then the most confident one
+  const byEmail = new Map<string, RawContact[]>();
+  ranked.forEach((contact) => {
+    const key = normalizeEmail(contact.email);
+    byEmail.set(key, [...(byEmail.get(key) || []), contact]);
+  });
+  const [primaryEmail, emailContacts] = [...byEmail.entries()].sort(
+    (a, b) => b[1].length - a[1].length
+  )[0];
+
+  const merged: MergedContact = {
+    email: emailContacts[0].email,
+    provider: emailContacts[0].provider,
+    confidence: combineConfidence(emailContacts.map((contact) => contact.confidence)),
+    cachedAt: emailContacts[0].cachedAt,
+    providers: [...new Set(ranked.map((contact) => contact.provider))],
+    fieldSources: { email: emailContacts[0].provider },
+    alternateEmails: [...byEmail.entries()]
+      .filter(([email]) => email !== primaryEmail)
+      .map(([, sameEmail]) => sameEmail[0].email),
+    sources: ranked,
+  };
+
+  // Names are taken as a pair so a first name from one provider isn't joined
+  // to a different provider's last name
+  const named = ranked.find((contact) => nameKey(contact));
+  if (named) {
+    merged.firstName = named.firstName;
+    merged.lastName = named.lastName;
+    merged.fieldSources.firstName = named.provider;
+    merged.fieldSources.lastName = named.provider;
+  }
+
+  (["title", "department", "linkedinUrl", "apolloContactId"] as const).forEach(
+    (field) => {
+      const source = ranked.find((contact) => contact[field]);
+      if (source) {
+        merged[field] = source[field];
+        merged.fieldSources[field] = source.provider;
+      }
+    }
+  );
+
+  return merged;
+};
+
+export const mergeContacts = (contacts: RawContact[]): MergedContact[] => {
+  const usable = contacts.filter((contact) => contact.email);
+
+  // Union-find over contacts, joined on shared email or shared full name
+  const parent = usable.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const firstSeen = new Map<string, number>();
+  usable.forEach((contact, index) => {
+    const keys = [`email:${normalizeEmail(contact.email)}`];
+    const name = nameKey(contact);
+    if (name) keys.push(`name:${name}`);
+    keys.forEach((key) => {
+      const seen = firstSeen.get(key);
+      if (seen === undefined) firstSeen.set(key, index);
+      else parent[find(index)] = find(seen);
+    });
+  });
+
+  const groups = new Map<number, RawContact[]>();
+  usable.forEach((contact, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) || []), contact]);
+  });
+  return [...groups.values()].map(mergeGroup);
+};
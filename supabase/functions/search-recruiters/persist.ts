@@ -0,0 +1,249 @@
+// Set-based write path for search results: one lookup of the company's
+// existing recruiters, verification with bounded concurrency, then chunked
+// upserts on UNIQUE(company_id, email). A chunk that fails is retried row by
+// row so one bad contact doesn't lose the rest of the search. Existing
+// recruiters only get the columns a search owns written, so edits and
+// unsubscribes made while the search ran are kept.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { classifyContact } from "../_shared/relevance.ts";
+import type { MergedContact } from "./merge.ts";
+import { recordRecruiterSources } from "./sources.ts";
+
+export interface StoredRecruiter {
+  id: string;
+  email: string;
+  title: string | null;
+  department: string | null;
+  linkedin_url: string | null;
+  apollo_contact_id: string | null;
+  relevance_score: number | null;
+  relevance_category: string | null;
+  email_verified_at: string | null;
+  email_status_manual: boolean;
+  [column: string]: unknown;
+}
+
+export interface SavedRecruiter {
+  recruiter: StoredRecruiter;
+  contact: MergedContact;
+  status: "new" | "existing";
+}
+
+export interface SaveResult {
+  saved: SavedRecruiter[];
+  failed: { email: string; error: string }[];
+}
+
+type Verification = Record<string, unknown>;
+
+// Keeps upsert bodies well inside PostgREST request limits
+const CHUNK_SIZE = 100;
+// PostgREST's default cap on rows per response
+const PAGE_SIZE = 1000;
+const VERIFY_CONCURRENCY = 5;
+
+const chunk = <T>(items: T[], size = CHUNK_SIZE) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) =>
+    items.slice(index * size, (index + 1) * size)
+  );
+
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// The company's recruiters keyed by lowercased email, since stored addresses
+// added by hand or imported may differ in case from what providers return
+const loadExisting = async (supabase: SupabaseClient, companyId: string) => {
+  const existing = new Map<string, StoredRecruiter>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("recruiters")
+      .select("*")
+      .eq("company_id", companyId)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load recruiters: ${error.message}`);
+    (data || []).forEach((row: StoredRecruiter) => existing.set(row.email.toLowerCase(), row));
+    if (!data || data.length < PAGE_SIZE) return existing;
+  }
+};
+
+// Upserts rows, falling back to one row at a time when a chunk is rejected.
+// onStored is called as each chunk lands.
+const upsertRows = async (
+  supabase: SupabaseClient,
+  rows: Record<string, unknown>[],
+  failed: SaveResult["failed"],
+  onStored: (rows: StoredRecruiter[]) => void
+) => {
+  const upsert = (batch: Record<string, unknown>[]) =>
+    supabase
+      .from("recruiters")
+      .upsert(batch, { onConflict: "company_id,email" })
+      .select();
+
+  for (const batch of chunk(rows)) {
+    const { data, error } = await upsert(batch);
+    if (!error) {
+      onStored(data || []);
+      continue;
+    }
+    console.error(`Batch upsert of ${batch.length} recruiters failed, retrying individually:`, error);
+    for (const row of batch) {
+      const { data: single, error: rowError } = await upsert([row]);
+      if (rowError) {
+        console.error(`Error saving recruiter ${row.email}:`, rowError);
+        failed.push({ email: row.email as string, error: rowError.message });
+      } else if (single?.[0]) {
+        onStored([single[0]]);
+      }
+    }
+  }
+};
+
+export const saveRecruiters = async (
+  supabase: SupabaseClient,
+  companyId: string,
+  contacts: MergedContact[],
+  verifyContact: ((contact: MergedContact) => Promise<Verification>) | null,
+  onSaved?: (saved: SavedRecruiter[]) => void
+): Promise<SaveResult> => {
+  const failed: SaveResult["failed"] = [];
+  if (contacts.length === 0) return { saved: [], failed };
+
+  // A person stored under another of their addresses is the same recruiter
+  const existing = await loadExisting(supabase, companyId);
+  const claimed = new Set<string>();
+  const matched = contacts
+    .map((contact) => ({
+      contact,
+      existing: [contact.email, ...contact.alternateEmails]
+        .map((email) => existing.get(email.toLowerCase()))
+        .find(Boolean),
+    }))
+    // Postgres rejects an upsert that touches the same row twice
+    .filter(({ contact, existing }) => {
+      const key = (existing ? existing.email : contact.email).toLowerCase();
+      if (claimed.has(key)) return false;
+      claimed.add(key);
+      return true;
+    });
+
+  // Only new and never-verified addresses need a verification round trip
+  const verifications = await mapWithConcurrency(
+    matched,
+    VERIFY_CONCURRENCY,
+    async ({ contact, existing }): Promise<Verification> => {
+      if (existing?.email_verified_at || existing?.email_status_manual) return {};
+      if (!verifyContact)
+        return existing
+          ? {}
+          : { email_status: "unknown", email_verification: null, email_verified_at: null };
+      try {
+        return await verifyContact(contact);
+      } catch (error) {
+        console.error(`Verification failed for ${contact.email}:`, error);
+        return existing
+          ? {}
+          : { email_status: "unknown", email_verification: null, email_verified_at: null };
+      }
+    }
+  );
+
+  // Rows within one upsert must share the same columns, so new recruiters are
+  // written separately and existing ones are grouped by the columns they change
+  const newRows: Record<string, unknown>[] = [];
+  const existingRows = new Map<string, Record<string, unknown>[]>();
+  matched.forEach(({ contact, existing }, index) => {
+    const relevance = classifyContact(contact.title, contact.department);
+    // Merged provenance replaces what the last search stored
+    const provenance = {
+      providers: contact.providers,
+      field_sources: contact.fieldSources,
+      email_confidence: contact.confidence ?? null,
+    };
+
+    if (existing) {
+      // Fields the search found are only filled in where the stored row has none
+      const filled = {
+        apollo_contact_id: contact.apolloContactId,
+        linkedin_url: contact.linkedinUrl,
+        title: contact.title,
+        department: contact.department,
+      };
+      const row: Record<string, unknown> = {
+        id: existing.id,
+        company_id: companyId,
+        email: existing.email,
+        ...provenance,
+        ...verifications[index],
+      };
+      (Object.keys(filled) as (keyof typeof filled)[]).forEach((column) => {
+        if (!existing[column] && filled[column]) row[column] = filled[column];
+      });
+      if (existing.relevance_score == null || existing.relevance_category == null) {
+        row.relevance_score = relevance.score;
+        row.relevance_category = relevance.category;
+      }
+      const shape = Object.keys(row).sort().join(",");
+      existingRows.set(shape, [...(existingRows.get(shape) || []), row]);
+    } else {
+      newRows.push({
+        company_id: companyId,
+        first_name: contact.firstName ?? null,
+        last_name: contact.lastName ?? null,
+        email: contact.email,
+        title: contact.title ?? null,
+        department: contact.department ?? null,
+        linkedin_url: contact.linkedinUrl ?? null,
+        apollo_contact_id: contact.apolloContactId ?? null,
+        ...provenance,
+        relevance_score: relevance.score,
+        relevance_category: relevance.category,
+        email_status: "unknown",
+        email_verification: null,
+        email_verified_at: null,
+        ...verifications[index],
+      });
+    }
+  });
+
+  const byEmail = new Map(
+    matched.map((entry) => [entry.existing ? entry.existing.email : entry.contact.email, entry])
+  );
+  const saved: SavedRecruiter[] = [];
+  const onStored = (rows: StoredRecruiter[]) => {
+    const batch = rows.flatMap((recruiter): SavedRecruiter[] => {
+      const entry = byEmail.get(recruiter.email);
+      return entry
+        ? [{ recruiter, contact: entry.contact, status: entry.existing ? "existing" : "new" }]
+        : [];
+    });
+    saved.push(...batch);
+    onSaved?.(batch);
+  };
+  for (const rows of existingRows.values()) {
+    await upsertRows(supabase, rows, failed, onStored);
+  }
+  await upsertRows(supabase, newRows, failed, onStored);
+
+  await recordRecruiterSources(
+    supabase,
+    saved.map(({ recruiter, contact }) => ({ recruiterId: recruiter.id, contact }))
+  );
+  return { saved, failed };
+};
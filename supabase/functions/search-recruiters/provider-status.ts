@@ -0,0 +1,78 @@
+// Per-provider outcome of a search, so the client can tell "found nothing"
+// apart from "the key expired" or "the provider is rate limiting us", and
+// tell the user what to do about it.
+
+import { QuotaExceededError } from "../_shared/provider-usage.ts";
+
+export type ProviderStatus =
+  | "ok"
+  | "empty"
+  | "auth_error"
+  | "rate_limited"
+  | "network_error"
+  | "not_configured"
+  // Any other failure, e.g. a 5xx or a response we couldn't parse
+  | "error";
+
+// Secret each provider reads its API key from
+export const PROVIDER_API_KEYS: Record<string, string> = {
+  "Hunter.io": "HUNTER_API_KEY",
+  RocketReach: "ROCKETREACH_API_KEY",
+  "Apollo.io": "APOLLO_API_KEY",
+};
+
+// A failed provider call, classified by how the provider responded
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly status: ProviderStatus,
+    public readonly httpStatus?: number
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+// 402 is how Hunter.io and RocketReach report an exhausted plan
+export const providerHttpError = (provider: string, httpStatus: number) =>
+  new ProviderError(
+    `${provider} API error: HTTP ${httpStatus}`,
+    httpStatus === 401 || httpStatus === 403
+      ? "auth_error"
+      : httpStatus === 402 || httpStatus === 429
+        ? "rate_limited"
+        : "error",
+    httpStatus
+  );
+
+export const classifyProviderError = (error: unknown): ProviderStatus => {
+  if (error instanceof ProviderError) return error.status;
+  if (error instanceof QuotaExceededError) return "rate_limited";
+  // fetch rejects with a TypeError when the host can't be reached
+  if (error instanceof TypeError) return "network_error";
+  return "error";
+};
+
+export const describeProviderStatus = (
+  provider: string,
+  status: ProviderStatus,
+  detail?: string
+): string | undefined => {
+  const apiKey = PROVIDER_API_KEYS[provider] ?? "its API key";
+  switch (status) {
+    case "ok":
+      return undefined;
+    case "empty":
+      return `${provider} has no contacts for this company.`;
+    case "auth_error":
+      return `${provider} rejected the API key. Check ${apiKey} in the function secrets.`;
+    case "rate_limited":
+      return `${provider} is rate limiting or out of credits. Try again later, or check its limits under Settings.`;
+    case "network_error":
+      return `Couldn't reach ${provider}${detail ? ` (${detail})` : ""}. Check the network and the provider's status page.`;
+    case "not_configured":
+      return `Set ${apiKey} to include ${provider} in searches.`;
+    case "error":
+      return `${provider} failed${detail ? `: ${detail}` : ""}.`;
+  }
+};
@@ -0,0 +1,60 @@
+// Provenance for stored recruiters: one recruiter_sources row per provider
+// that returned the person, with the address and confidence it reported and
+// its raw record. Rows are refreshed on every search that finds the person
+// again; created_at keeps when the provider first found them.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { MergedContact } from "./merge.ts";
+
+const SOURCES_BATCH_SIZE = 200;
+
+export interface SourceSummary {
+  provider: string;
+  email: string;
+  confidence: number | null;
+}
+
+// One entry per provider, keeping the provider's most confident record
+const bestPerProvider = (contact: MergedContact) => {
+  const best = new Map<string, MergedContact["sources"][number]>();
+  contact.sources.forEach((source) => {
+    const current = best.get(source.provider);
+    if (!current || (source.confidence ?? -1) > (current.confidence ?? -1))
+      best.set(source.provider, source);
+  });
+  return [...best.values()];
+};
+
+export const summarizeSources = (contact: MergedContact): SourceSummary[] =>
+  bestPerProvider(contact).map((source) => ({
+    provider: source.provider,
+    email: source.email,
+    confidence: source.confidence ?? null,
+  }));
+
+// Provenance is best effort: a failed batch is logged, never fatal to the search
+export const recordRecruiterSources = async (
+  supabase: SupabaseClient,
+  entries: { recruiterId: string; contact: MergedContact }[]
+) => {
+  const seenAt = new Date().toISOString();
+  const rows = entries.flatMap(({ recruiterId, contact }) =>
+    bestPerProvider(contact).map((source) => ({
+      recruiter_id: recruiterId,
+      provider: source.provider,
+      email: source.email,
+      confidence: source.confidence ?? null,
+      raw_payload: source.raw ?? null,
+      // Cached responses were found when the provider was last queried
+      last_seen_at: source.cachedAt ?? seenAt,
+    }))
+  );
+  for (let i = 0; i < rows.length; i += SOURCES_BATCH_SIZE) {
+    const { error } = await supabase
+      .from("recruiter_sources")
+      .upsert(rows.slice(i, i + SOURCES_BATCH_SIZE), {
+        onConflict: "recruiter_id,provider",
+      });
+    if (error) console.error("Error recording recruiter sources:", error);
+  }
+};
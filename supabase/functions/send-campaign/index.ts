@@ -1,6 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-import { Resend } from "npm:resend@2.0.0";
+import { createTransportFromEnv } from '../_shared/mail-transport.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,6 +13,26 @@ interface CampaignRequest {
   fromName?: string;
 }
 
+interface Recipient {
+  id: string;
+  recruiters: {
+    id: string;
+    email: string;
+    first_name: string | null;
+    last_name: string | null;
+    title: string | null;
+    email_status: string | null;
+    email_source: string;
+    unsubscribed_at: string | null;
+  } | null;
+}
+
+interface CampaignStep {
+  step_number: number;
+  email_subject: string | null;
+  email_template: string;
+}
+
 interface EmailTemplate {
   subject: string;
   content: string;
@@ -34,21 +54,21 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
-    const resendApiKey = Deno.env.get('RESEND_API_KEY');
-    if (!resendApiKey) {
+    // Initialize Supabase client. The transport is only checked here, so a
+    // missing Resend key fails the request instead of every queued email.
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    const transportResult = createTransportFromEnv(supabase);
+    if ('error' in transportResult) {
       return new Response(
-        JSON.stringify({ error: "Resend API key not configured" }),
+        JSON.stringify({ error: transportResult.error }),
         { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
+    const { transport } = transportResult;
 
-    // Initialize Supabase client and Resend
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
-    const resend = new Resend(resendApiKey);
-
-    console.log(`Starting email campaign: ${campaignId}`);
+    console.log(`Starting email campaign: ${campaignId} (transport: ${transport.name})`);
 
     // Step 1: Get campaign details
     const { data: campaign, error: campaignError } = await supabase
@@ -71,124 +91,153 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
-    if (campaign.status !== 'draft') {
+    // Scheduled campaigns are sent by send-scheduled-campaigns once they're due
+    if (campaign.status !== 'draft' && campaign.status !== 'scheduled') {
       return new Response(
-        JSON.stringify({ error: "Campaign is not in draft status" }),
+        JSON.stringify({ error: "Campaign is not in draft or scheduled status" }),
         { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
 
-    // Step 2: Get recruiters for this campaign
-    const { data: recruiters, error: recruitersError } = await supabase
-      .from('recruiters')
-      .select('*')
-      .eq('company_id', campaign.company_id)
-      .eq('email_status', 'valid');
+    // Step 2: Get the recipients picked for this campaign that aren't queued yet
+    const { data, error: recipientsError } = await supabase
+      .from('campaign_recipients')
+      .select('id, recruiters (*)')
+      .eq('campaign_id', campaignId)
+      .eq('status', 'pending')
+      .is('email_log_id', null);
+
+    if (recipientsError) throw new Error(`Failed to load recipients: ${recipientsError.message}`);
+    const recipients: Recipient[] = data || [];
+
+    // Invalid addresses, inferred ones verification hasn't confirmed valid, and
+    // unsubscribed recruiters are skipped
+    const sendable = recipients.filter(({ recruiters: recruiter }) =>
+      !!recruiter &&
+      !recruiter.unsubscribed_at &&
+      recruiter.email_status !== 'invalid' &&
+      (recruiter.email_source !== 'inferred' || recruiter.email_status === 'valid')
+    );
+    const skippedIds = recipients
+      .filter((recipient) => !sendable.includes(recipient))
+      .map((recipient) => recipient.id);
+    if (skippedIds.length > 0) {
+      await supabase
+        .from('campaign_recipients')
+        .update({ status: 'skipped' })
+        .in('id', skippedIds);
+    }
 
-    if (recruitersError || !recruiters || recruiters.length === 0) {
-      console.error('No valid recruiters found:', recruitersError);
+    if (sendable.length === 0) {
       return new Response(
-        JSON.stringify({ error: "No valid recruiters found for this campaign" }),
+        JSON.stringify({ error: "No sendable recipients selected for this campaign" }),
         { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
 
-    console.log(`Found ${recruiters.length} recruiters to email`);
-
-    // Step 3: Update campaign status to sending
-    await supabase
+    console.log(`Queueing ${sendable.length} recipients (${skippedIds.length} skipped)`);
+
+    // The campaign's own subject and template are step 1; follow-ups come after
+    const { data: followUps, error: stepsError } = await supabase
+      .from('campaign_steps')
+      .select('step_number, email_subject, email_template')
+      .eq('campaign_id', campaignId)
+      .order('step_number');
+    if (stepsError) throw new Error(`Failed to load follow-up steps: ${stepsError.message}`);
+    const steps: CampaignStep[] = [
+      { step_number: 1, email_subject: campaign.email_subject, email_template: campaign.email_template },
+      ...(followUps || []),
+    ];
+
+    // Step 3: Claim the campaign by moving it to sending. The status condition
+    // keeps a manual send and the scheduler from both sending it.
+    const { data: claimed } = await supabase
       .from('email_campaigns')
       .update({ 
         status: 'sending',
-        total_emails: recruiters.length
+        total_emails: sendable.length * steps.length
       })
-      .eq('id', campaignId);
-
-    // Step 4: Send emails to each recruiter
-    let emailsSent = 0;
-    let emailsDelivered = 0;
-    const emailPromises = [];
-
-    for (const recruiter of recruiters) {
-      // Personalize the email content
-      const personalizedContent = personalizeEmailContent(
-        campaign.email_template,
-        recruiter,
-        campaign.companies,
-        campaign.position_title
-      );
-
-      const personalizedSubject = personalizeEmailSubject(
-        campaign.email_subject,
-        recruiter,
-        campaign.companies,
-        campaign.position_title
-      );
-
-      // Create email log entry
-      const { data: emailLog, error: logError } = await supabase
-        .from('email_logs')
-        .insert({
-          campaign_id: campaignId,
-          recruiter_id: recruiter.id,
-          email: recruiter.email,
-          subject: personalizedSubject,
-          content: personalizedContent,
-          status: 'pending'
-        })
-        .select()
-        .single();
-
-      if (logError) {
-        console.error('Error creating email log:', logError);
-        continue;
-      }
+      .eq('id', campaignId)
+      .in('status', ['draft', 'scheduled'])
+      .select('id');
 
-      // Send email via Resend
-      const emailPromise = sendEmailWithRetry(
-        resend,
-        {
-          from: `${fromName} <${fromEmail}>`,
-          to: [recruiter.email],
-          subject: personalizedSubject,
-          html: personalizedContent,
-        },
-        supabase,
-        emailLog.id
+    if (!claimed || claimed.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "Campaign is already being sent" }),
+        { status: 409, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
-
-      emailPromises.push(emailPromise);
     }
 
-    // Wait for all emails to be sent
-    const results = await Promise.allSettled(emailPromises);
-    
-    for (const result of results) {
-      if (result.status === 'fulfilled') {
-        if (result.value.sent) emailsSent++;
-        if (result.value.delivered) emailsDelivered++;
-      }
+    // Step 4: Queue every step of the sequence for each recipient. The first
+    // email is due now; process-email-queue sets each follow-up's send time
+    // once the step before it has gone out.
+    const from = `${fromName} <${fromEmail}>`;
+    const messageDomain = fromEmail.split('@')[1] || 'localhost';
+    const queuedAt = new Date().toISOString();
+    const rows = sendable.flatMap(({ recruiters: recruiter }) => {
+      const firstSubject = personalizeEmailSubject(campaign.email_subject, recruiter, campaign.companies, campaign.position_title);
+      const messageIds = steps.map(() => `<${crypto.randomUUID()}@${messageDomain}>`);
+      return steps.map((step, index) => ({
+        campaign_id: campaignId,
+        recruiter_id: recruiter!.id,
+        email: recruiter!.email,
+        from_address: from,
+        step_number: step.step_number,
+        // Follow-ups without their own subject reply to the first email
+        subject: index === 0
+          ? firstSubject
+          : step.email_subject
+            ? personalizeEmailSubject(step.email_subject, recruiter, campaign.companies, campaign.position_title)
+            : `Re: ${firstSubject}`,
+        content: personalizeEmailContent(step.email_template, recruiter, campaign.companies, campaign.position_title),
+        message_id: messageIds[index],
+        thread_references: messageIds.slice(0, index),
+        send_after: index === 0 ? queuedAt : null,
+        status: 'pending'
+      }));
+    });
+
+    const { data: emailLogs, error: logError } = await supabase
+      .from('email_logs')
+      .insert(rows)
+      .select('id, recruiter_id, step_number');
+
+    if (logError || !emailLogs) {
+      // Nothing was queued, so the campaign can be sent again
+      await supabase
+        .from('email_campaigns')
+        .update({ status: campaign.status })
+        .eq('id', campaignId);
+      throw new Error(`Failed to queue emails: ${logError?.message}`);
     }
 
-    console.log(`Campaign completed: ${emailsSent} sent, ${emailsDelivered} delivered`);
-
-    // Step 5: Update campaign with final stats
-    await supabase
-      .from('email_campaigns')
-      .update({
-        status: 'completed',
-        emails_sent: emailsSent,
-        emails_delivered: emailsDelivered
-      })
-      .eq('id', campaignId);
+    // Recipients point at their first email
+    const logIds = new Map(
+      emailLogs
+        .filter((log: { step_number: number }) => log.step_number === 1)
+        .map((log: { id: string; recruiter_id: string }) => [log.recruiter_id, log.id])
+    );
+    const { error: linkError } = await supabase
+      .from('campaign_recipients')
+      .upsert(sendable.map((recipient) => ({
+        id: recipient.id,
+        campaign_id: campaignId,
+        recruiter_id: recipient.recruiters!.id,
+        email_log_id: logIds.get(recipient.recruiters!.id),
+      })));
+    if (linkError) console.error('Error linking recipients to their emails:', linkError);
+
+    console.log(`Campaign queued: ${sendable.length} recipients, ${steps.length} steps`);
 
     return new Response(
       JSON.stringify({
         campaignId,
-        totalEmails: recruiters.length,
-        emailsSent,
-        emailsDelivered,
-        status: 'completed'
+        totalEmails: sendable.length,
+        skipped: skippedIds.length,
+        queued: sendable.length,
+        steps: steps.length,
+        status: 'sending',
+        transport: transport.name
       }),
       {
         status: 200,
@@ -208,60 +257,6 @@ const handler = async (req: Request): Promise<Response> => {
   }
 };
 
-async function sendEmailWithRetry(
-  resend: any,
-  emailData: any,
-  supabase: any,
-  emailLogId: string,
-  maxRetries = 3
-): Promise<{ sent: boolean; delivered: boolean }> {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(`Sending email to ${emailData.to[0]} (attempt ${attempt})`);
-      
-      const emailResponse = await resend.emails.send(emailData);
-      
-      if (emailResponse.error) {
-        throw new Error(emailResponse.error.message);
-      }
-
-      // Update email log with success
-      await supabase
-        .from('email_logs')
-        .update({
-          status: 'sent',
-          sent_at: new Date().toISOString()
-        })
-        .eq('id', emailLogId);
-
-      console.log(`Email sent successfully to ${emailData.to[0]}`);
-      return { sent: true, delivered: true };
-
-    } catch (error: any) {
-      console.error(`Attempt ${attempt} failed for ${emailData.to[0]}:`, error);
-      console.error('Full error details:', JSON.stringify(error));
-      
-      if (attempt === maxRetries) {
-        // Final failure - update log
-        await supabase
-          .from('email_logs')
-          .update({
-            status: 'failed',
-            error_message: error.message || JSON.stringify(error)
-          })
-          .eq('id', emailLogId);
-        
-        return { sent: false, delivered: false };
-      }
-      
-      // Wait before retry
-      await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
-    }
-  }
-  
-  return { sent: false, delivered: false };
-}
-
 function personalizeEmailContent(
   template: string,
   recruiter: any,
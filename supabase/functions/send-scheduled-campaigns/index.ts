@@ -0,0 +1,84 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Campaigns handed to send-campaign per run; the rest wait for the next minute
+const BATCH_SIZE = 5;
+
+// Sends campaigns whose scheduled time has passed. pg_cron calls this every
+// minute; each due campaign goes through send-campaign, which claims it before
+// sending so a campaign that was also sent by hand only goes out once.
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: due, error } = await supabase
+      .from("email_campaigns")
+      .select("id, scheduled_at")
+      .eq("status", "scheduled")
+      .lte("scheduled_at", new Date().toISOString())
+      .order("scheduled_at")
+      .limit(BATCH_SIZE);
+    if (error) throw new Error(`Failed to load scheduled campaigns: ${error.message}`);
+
+    const results = [];
+    for (const campaign of due || []) {
+      console.log(`Sending scheduled campaign ${campaign.id} (due ${campaign.scheduled_at})`);
+      const response = await fetch(`${supabaseUrl}/functions/v1/send-campaign`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${supabaseKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ campaignId: campaign.id }),
+      });
+      const result = await response.json().catch(() => ({}));
+
+      // 409 means someone else already started it. Any other failure would be
+      // retried every minute, so the campaign is marked failed instead.
+      if (!response.ok && response.status !== 409) {
+        console.error(`Scheduled campaign ${campaign.id} failed:`, result.error);
+        await supabase
+          .from("email_campaigns")
+          .update({ status: "failed" })
+          .eq("id", campaign.id)
+          .eq("status", "scheduled");
+      }
+      results.push({
+        campaignId: campaign.id,
+        status: response.ok ? "sent" : response.status === 409 ? "already_sending" : "failed",
+        error: response.ok ? undefined : result.error,
+      });
+    }
+
+    return new Response(JSON.stringify({ processed: results }), {
+      status: 200,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error: unknown) {
+    console.error("Error in send-scheduled-campaigns function:", error);
+    return new Response(
+      JSON.stringify({
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : String(error),
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -0,0 +1,71 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const page = (body: string, status = 200) =>
+  new Response(
+    `<!doctype html><html><head><meta charset="utf-8"><title>Unsubscribe</title></head>` +
+      `<body style="font-family: sans-serif; max-width: 32rem; margin: 4rem auto;">${body}</body></html>`,
+    { status, headers: { "Content-Type": "text/html; charset=utf-8" } }
+  );
+
+const message = (text: string, status = 200) => page(`<p>${text}</p>`, status);
+
+// The form sends the same body as a mail client's one-click POST (RFC 8058)
+const confirmation = (token: string) =>
+  page(
+    `<p>Unsubscribe from all further emails from me?</p>` +
+      `<form method="post" action="?token=${token}">` +
+      `<input type="hidden" name="List-Unsubscribe" value="One-Click">` +
+      `<button type="submit">Unsubscribe</button>` +
+      `</form>`
+  );
+
+// Unsubscribes a recruiter from all outreach. Every email links here from its
+// List-Unsubscribe header with its email_logs id as the token. Only a one-click
+// POST unsubscribes: a GET, which link scanners and prefetchers also send, just
+// shows a page asking the person to confirm.
+const handler = async (req: Request): Promise<Response> => {
+  const token = new URL(req.url).searchParams.get("token") || "";
+  if (!UUID_PATTERN.test(token)) {
+    return message("This unsubscribe link is not valid.", 400);
+  }
+  if (req.method === "GET") return confirmation(token);
+  if (req.method !== "POST") return message("Method not allowed.", 405);
+
+  try {
+    const form = await req.formData().catch(() => null);
+    if (form?.get("List-Unsubscribe") !== "One-Click") {
+      return message("This unsubscribe request is not valid.", 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: emailLog, error } = await supabase
+      .from("email_logs")
+      .select("campaign_id, recruiter_id")
+      .eq("id", token)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load email: ${error.message}`);
+    if (!emailLog) return message("This unsubscribe link is not valid.", 404);
+
+    const { error: stopError } = await supabase.rpc("stop_sequence", {
+      p_campaign_id: emailLog.campaign_id,
+      p_recruiter_id: emailLog.recruiter_id,
+      p_reason: "unsubscribed",
+    });
+    if (stopError) throw new Error(`Failed to unsubscribe: ${stopError.message}`);
+
+    console.log(`Recruiter ${emailLog.recruiter_id} unsubscribed`);
+    return message("You have been unsubscribed and won't receive any more emails from me.");
+  } catch (error: unknown) {
+    console.error("Error in unsubscribe function:", error);
+    return message("Something went wrong. Please try the link again later.", 500);
+  }
+};
+
+serve(handler);
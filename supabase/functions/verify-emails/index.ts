@@ -0,0 +1,107 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createEmailVerifier } from "../_shared/verification.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface VerifyRequest {
+  recruiterIds?: string[];
+  companyId?: string;
+}
+
+// Re-verifies stored recruiter addresses on demand, either a specific set of
+// recruiters or every recruiter at a company. Statuses marked by hand
+// or set by a bounce (email_status_manual) are kept.
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { recruiterIds, companyId }: VerifyRequest = await req.json();
+    if (!companyId && (!recruiterIds || recruiterIds.length === 0)) {
+      return new Response(
+        JSON.stringify({ error: "recruiterIds or companyId is required" }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    let query = supabase
+      .from("recruiters")
+      .select("id, email, email_verification")
+      .eq("email_status_manual", false);
+    query = recruiterIds?.length
+      ? query.in("id", recruiterIds)
+      : query.eq("company_id", companyId);
+    const { data: recruiters, error } = await query;
+    if (error) throw new Error(`Failed to load recruiters: ${error.message}`);
+
+    const verifier = createEmailVerifier();
+    const results = [];
+    for (const recruiter of recruiters || []) {
+      // Keep the provider confidence recorded when the contact was first found
+      const verification = await verifier.verify(
+        recruiter.email,
+        recruiter.email_verification?.checks?.providerConfidence
+      );
+      const { error: updateError } = await supabase
+        .from("recruiters")
+        .update({
+          email_status: verification.status,
+          email_verification: {
+            checks: verification.checks,
+            reasons: verification.reasons,
+          },
+          email_verified_at: new Date().toISOString(),
+        })
+        .eq("id", recruiter.id);
+      if (updateError)
+        console.error(
+          `Error saving verification for ${recruiter.email}:`,
+          updateError
+        );
+      results.push({
+        id: recruiter.id,
+        email: recruiter.email,
+        email_status: verification.status,
+        reasons: verification.reasons,
+      });
+    }
+
+    const summary = results.reduce<Record<string, number>>((counts, result) => {
+      counts[result.email_status] = (counts[result.email_status] || 0) + 1;
+      return counts;
+    }, {});
+
+    return new Response(
+      JSON.stringify({ verified: results.length, summary, results }),
+      { headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error("Error in verify-emails function:", error);
+    return new Response(
+      JSON.stringify({
+        error: "Internal server error",
+        details: error.message,
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+};
+
+serve(handler);
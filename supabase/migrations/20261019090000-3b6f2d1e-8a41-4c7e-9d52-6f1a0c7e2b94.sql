@@ -0,0 +1,27 @@
+-- Store how relevant each contact is to recruiting (0-100) and which talent-acquisition role they hold
+ALTER TABLE public.recruiters
+  ADD COLUMN relevance_score INTEGER CHECK (relevance_score BETWEEN 0 AND 100),
+  ADD COLUMN relevance_category TEXT CHECK (relevance_category IN ('recruiter', 'sourcer', 'ta_partner', 'hr', 'hiring_manager', 'other'));
+
+-- Backfill existing contacts with a keyword approximation of the classifier in search-recruiters
+UPDATE public.recruiters
+SET
+  relevance_category = CASE
+    WHEN title ~* '\msourc(er|ing)\M' THEN 'sourcer'
+    WHEN title ~* '\m(talent acquisition|talent partner|head of talent)\M' THEN 'ta_partner'
+    WHEN title ~* '\mrecruit' THEN 'recruiter'
+    WHEN title ~* '\m(hr|hrbp|human resources?|people operations|people partner)\M' THEN 'hr'
+    WHEN title ~* '\m(hiring manager|engineering manager|head of engineering)\M' THEN 'hiring_manager'
+    ELSE 'other'
+  END,
+  relevance_score = CASE
+    WHEN title ~* '\msourc(er|ing)\M' THEN 95
+    WHEN title ~* '\m(talent acquisition|talent partner|head of talent)\M' THEN 95
+    WHEN title ~* '\mrecruit' THEN 90
+    WHEN title ~* '\m(hr|hrbp|human resources?|people operations|people partner)\M' THEN 65
+    WHEN title ~* '\m(hiring manager|engineering manager|head of engineering)\M' THEN 55
+    ELSE 10
+  END
+WHERE relevance_category IS NULL;
+
+CREATE INDEX idx_recruiters_relevance ON public.recruiters(company_id, relevance_score DESC);
@@ -0,0 +1,8 @@
+-- Track when and how each address was verified; new contacts start as unknown until verified
+ALTER TABLE public.recruiters
+  ADD COLUMN email_verified_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN email_verification JSONB;
+
+ALTER TABLE public.recruiters ALTER COLUMN email_status SET DEFAULT 'unknown';
+
+CREATE INDEX idx_recruiters_email_status ON public.recruiters(email_status);
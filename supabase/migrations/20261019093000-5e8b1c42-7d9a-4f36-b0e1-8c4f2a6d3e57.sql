@@ -0,0 +1,5 @@
+-- Record where each address came from and how confident we are in it.
+-- "inferred" addresses are generated from the company's email pattern rather than returned by a provider.
+ALTER TABLE public.recruiters
+  ADD COLUMN email_source TEXT NOT NULL DEFAULT 'provider' CHECK (email_source IN ('provider', 'inferred')),
+  ADD COLUMN email_confidence INTEGER CHECK (email_confidence BETWEEN 0 AND 100);
@@ -0,0 +1,6 @@
+-- Track company enrichment; location is only set once a provider reports it
+ALTER TABLE public.companies
+  ADD COLUMN enriched_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN enrichment_source TEXT;
+
+ALTER TABLE public.companies ALTER COLUMN location DROP DEFAULT;
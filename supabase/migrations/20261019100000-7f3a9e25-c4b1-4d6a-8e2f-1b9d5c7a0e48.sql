@@ -0,0 +1,20 @@
+-- Cache of raw provider responses per domain and provider, served by search-recruiters within its TTL
+CREATE TABLE public.provider_cache (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  domain TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(domain, provider)
+);
+
+ALTER TABLE public.provider_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on provider_cache" ON public.provider_cache FOR ALL USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_provider_cache_updated_at
+  BEFORE UPDATE ON public.provider_cache
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
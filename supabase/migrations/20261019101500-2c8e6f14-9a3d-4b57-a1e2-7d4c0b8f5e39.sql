@@ -0,0 +1,55 @@
+-- Ledger of every paid provider call: credits used and HTTP status (429 = rate limited)
+CREATE TABLE public.provider_usage (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL,
+  operation TEXT NOT NULL,
+  status_code INTEGER,
+  credits_used INTEGER NOT NULL DEFAULT 0,
+  rate_limited BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Per-provider budgets; NULL means unlimited
+CREATE TABLE public.provider_budgets (
+  provider TEXT NOT NULL PRIMARY KEY,
+  daily_limit INTEGER CHECK (daily_limit >= 0),
+  monthly_limit INTEGER CHECK (monthly_limit >= 0),
+  per_second_limit NUMERIC CHECK (per_second_limit > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.provider_budgets (provider, per_second_limit) VALUES
+  ('Hunter.io', 10),
+  ('RocketReach', 2),
+  ('Apollo.io', 5);
+
+ALTER TABLE public.provider_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.provider_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on provider_usage" ON public.provider_usage FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Allow all operations on provider_budgets" ON public.provider_budgets FOR ALL USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_provider_budgets_updated_at
+  BEFORE UPDATE ON public.provider_budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_provider_usage_provider_created_at ON public.provider_usage(provider, created_at);
+
+-- Credits used today and this month per provider, for budget checks and the quota view
+CREATE OR REPLACE FUNCTION public.provider_usage_totals()
+RETURNS TABLE (provider TEXT, credits_today BIGINT, credits_month BIGINT, rate_limited_today BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    u.provider,
+    COALESCE(SUM(u.credits_used) FILTER (WHERE u.created_at >= date_trunc('day', now())), 0),
+    COALESCE(SUM(u.credits_used), 0),
+    COUNT(*) FILTER (WHERE u.rate_limited AND u.created_at >= date_trunc('day', now()))
+  FROM public.provider_usage u
+  WHERE u.created_at >= date_trunc('month', now())
+  GROUP BY u.provider;
+$$;
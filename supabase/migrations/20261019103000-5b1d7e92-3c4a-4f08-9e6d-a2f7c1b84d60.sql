@@ -0,0 +1,18 @@
+-- Outgoing emails written by the "capture" mail transport (MAIL_TRANSPORT=capture
+-- or MOCK_MODE=true) instead of being delivered through Resend
+CREATE TABLE public.captured_emails (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID REFERENCES public.email_campaigns(id) ON DELETE CASCADE,
+  email_log_id UUID REFERENCES public.email_logs(id) ON DELETE SET NULL,
+  from_address TEXT NOT NULL,
+  to_addresses TEXT[] NOT NULL,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.captured_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on captured_emails" ON public.captured_emails FOR ALL USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_captured_emails_campaign_id ON public.captured_emails(campaign_id);
@@ -0,0 +1,6 @@
+-- Contacts are merged across providers: record every provider that returned
+-- the person and which provider each field was taken from. email_confidence
+-- now holds the combined confidence of all providers that reported the address.
+ALTER TABLE public.recruiters
+  ADD COLUMN providers TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN field_sources JSONB;
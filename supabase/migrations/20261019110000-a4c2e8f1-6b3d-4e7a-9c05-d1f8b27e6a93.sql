@@ -0,0 +1,31 @@
+-- Which provider found each recruiter, when, with what confidence, and the
+-- provider's raw record for the person
+CREATE TABLE public.recruiter_sources (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  recruiter_id UUID NOT NULL REFERENCES public.recruiters(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  email TEXT NOT NULL,
+  confidence INTEGER CHECK (confidence BETWEEN 0 AND 100),
+  raw_payload JSONB,
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(recruiter_id, provider)
+);
+
+ALTER TABLE public.recruiter_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on recruiter_sources" ON public.recruiter_sources FOR ALL USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_recruiter_sources_updated_at
+  BEFORE UPDATE ON public.recruiter_sources
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed from the providers recorded on merged recruiters; confidence and payloads
+-- fill in the next time a search finds them
+INSERT INTO public.recruiter_sources (recruiter_id, provider, email)
+SELECT r.id, p.provider, r.email
+FROM public.recruiters r
+CROSS JOIN LATERAL unnest(r.providers) AS p(provider)
+ON CONFLICT (recruiter_id, provider) DO NOTHING;
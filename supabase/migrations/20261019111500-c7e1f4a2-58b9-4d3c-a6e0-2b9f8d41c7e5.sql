@@ -0,0 +1,28 @@
+-- One row per search-recruiters call: what was searched, what the providers
+-- returned and how long it took. recruiter_ids is the result set, diffed
+-- against the previous completed search of the same company.
+CREATE TABLE public.searches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  input TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('completed', 'ambiguous', 'failed')),
+  company_id UUID REFERENCES public.companies(id) ON DELETE SET NULL,
+  domain TEXT,
+  providers JSONB NOT NULL DEFAULT '[]',
+  total_found INTEGER NOT NULL DEFAULT 0,
+  relevant_count INTEGER NOT NULL DEFAULT 0,
+  new_count INTEGER NOT NULL DEFAULT 0,
+  recruiter_ids UUID[] NOT NULL DEFAULT '{}',
+  previous_search_id UUID REFERENCES public.searches(id) ON DELETE SET NULL,
+  added_recruiter_ids UUID[] NOT NULL DEFAULT '{}',
+  missing_recruiter_ids UUID[] NOT NULL DEFAULT '{}',
+  errors TEXT[] NOT NULL DEFAULT '{}',
+  duration_ms INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.searches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on searches" ON public.searches FOR ALL USING (true) WITH CHECK (true);
+
+CREATE INDEX idx_searches_created_at ON public.searches(created_at DESC);
+CREATE INDEX idx_searches_company_id_created_at ON public.searches(company_id, created_at DESC);
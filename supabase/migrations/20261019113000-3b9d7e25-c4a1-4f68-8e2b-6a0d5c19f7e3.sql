@@ -0,0 +1,4 @@
+-- Recruiters added by hand in the recruiter manager are recorded as "manual".
+ALTER TABLE public.recruiters
+  DROP CONSTRAINT recruiters_email_source_check,
+  ADD CONSTRAINT recruiters_email_source_check CHECK (email_source IN ('provider', 'inferred', 'manual'));
@@ -0,0 +1,4 @@
+-- Recruiters loaded from a spreadsheet by the CSV/XLSX import are recorded as "import".
+ALTER TABLE public.recruiters
+  DROP CONSTRAINT recruiters_email_source_check,
+  ADD CONSTRAINT recruiters_email_source_check CHECK (email_source IN ('provider', 'inferred', 'manual', 'import'));
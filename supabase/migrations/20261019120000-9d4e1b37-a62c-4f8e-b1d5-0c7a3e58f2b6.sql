@@ -0,0 +1,18 @@
+-- Free-form labels on recruiters (e.g. "career-fair-2026", "referral"), used to filter lists and exports.
+ALTER TABLE public.recruiters
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_recruiters_tags ON public.recruiters USING GIN (tags);
+
+-- When each recruiter was last emailed, for exports and follow-up
+CREATE OR REPLACE FUNCTION public.recruiter_last_contacted()
+RETURNS TABLE (recruiter_id UUID, last_contacted_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT l.recruiter_id, MAX(l.sent_at)
+  FROM public.email_logs l
+  WHERE l.sent_at IS NOT NULL
+  GROUP BY l.recruiter_id;
+$$;
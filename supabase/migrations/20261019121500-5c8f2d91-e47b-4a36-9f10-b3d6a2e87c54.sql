@@ -0,0 +1,46 @@
+-- The recruiters each campaign goes to, picked explicitly when the campaign is
+-- set up. send-campaign only emails these rows, and records how each one went.
+CREATE TABLE public.campaign_recipients (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES public.email_campaigns(id) ON DELETE CASCADE,
+  recruiter_id UUID NOT NULL REFERENCES public.recruiters(id) ON DELETE CASCADE,
+  -- "skipped" recipients had an address that couldn't be sent to when the campaign went out
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  email_log_id UUID REFERENCES public.email_logs(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(campaign_id, recruiter_id)
+);
+
+CREATE INDEX idx_campaign_recipients_recruiter_id ON public.campaign_recipients(recruiter_id);
+
+ALTER TABLE public.campaign_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on campaign_recipients" ON public.campaign_recipients FOR ALL USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_campaign_recipients_updated_at
+  BEFORE UPDATE ON public.campaign_recipients
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Campaigns that already went out: everyone with an email log, from their latest log
+INSERT INTO public.campaign_recipients (campaign_id, recruiter_id, status, email_log_id)
+SELECT DISTINCT ON (l.campaign_id, l.recruiter_id)
+  l.campaign_id,
+  l.recruiter_id,
+  CASE WHEN l.status IN ('sent', 'failed') THEN l.status ELSE 'pending' END,
+  l.id
+FROM public.email_logs l
+ORDER BY l.campaign_id, l.recruiter_id, l.created_at DESC
+ON CONFLICT (campaign_id, recruiter_id) DO NOTHING;
+
+-- Drafts keep the recipients send-campaign would have picked before this change
+INSERT INTO public.campaign_recipients (campaign_id, recruiter_id)
+SELECT c.id, r.id
+FROM public.email_campaigns c
+JOIN public.recruiters r ON r.company_id = c.company_id
+WHERE c.status = 'draft'
+  AND r.email_status = 'valid'
+  AND (r.email_source <> 'inferred' OR r.email_verified_at IS NOT NULL)
+  AND r.relevance_category <> 'other'
+ON CONFLICT (campaign_id, recruiter_id) DO NOTHING;
@@ -0,0 +1,39 @@
+-- Campaigns can be scheduled to go out at a set time. scheduled_at is the
+-- instant to send; scheduled_timezone is the zone it was picked in, kept so the
+-- schedule can be shown and edited the way it was entered.
+ALTER TABLE public.email_campaigns
+  ADD COLUMN scheduled_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN scheduled_timezone TEXT;
+
+ALTER TABLE public.email_campaigns DROP CONSTRAINT email_campaigns_status_check;
+ALTER TABLE public.email_campaigns
+  ADD CONSTRAINT email_campaigns_status_check
+  CHECK (status IN ('draft', 'scheduled', 'sending', 'completed', 'paused', 'failed'));
+
+ALTER TABLE public.email_campaigns
+  ADD CONSTRAINT email_campaigns_scheduled_at_check
+  CHECK (status <> 'scheduled' OR scheduled_at IS NOT NULL);
+
+CREATE INDEX idx_email_campaigns_scheduled_at ON public.email_campaigns(scheduled_at)
+  WHERE status = 'scheduled';
+
+-- Every minute, send-scheduled-campaigns hands due campaigns to send-campaign.
+-- The project URL and service role key are read from Vault secrets named
+-- "project_url" and "service_role_key".
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'send-scheduled-campaigns',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-scheduled-campaigns',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
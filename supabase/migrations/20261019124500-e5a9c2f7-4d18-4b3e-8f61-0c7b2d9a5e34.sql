@@ -0,0 +1,95 @@
+-- Outgoing email goes through a queue: send-campaign adds a pending
+-- email_logs row per recipient, and process-email-queue sends them at a
+-- limited rate. Rows are leased while being sent (locked_until), so a worker
+-- that dies mid-run leaves them to be picked up again instead of stranded.
+ALTER TABLE public.email_logs
+  ADD COLUMN from_address TEXT,
+  ADD COLUMN send_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD COLUMN locked_until TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_email_logs_queue ON public.email_logs(send_after) WHERE status = 'pending';
+CREATE INDEX idx_email_logs_sent_at ON public.email_logs(sent_at) WHERE sent_at IS NOT NULL;
+
+-- Rows the old in-request sender left pending may or may not have gone out,
+-- so they're failed rather than queued again
+UPDATE public.email_logs
+SET status = 'failed', error_message = 'Interrupted before the send was confirmed'
+WHERE status = 'pending';
+
+UPDATE public.campaign_recipients r
+SET status = 'failed'
+FROM public.email_logs l
+WHERE r.email_log_id = l.id AND r.status = 'pending' AND l.status = 'failed';
+
+UPDATE public.email_campaigns SET status = 'failed' WHERE status = 'sending';
+
+-- Claims up to max_emails due rows of campaigns that are sending, leasing them
+-- for lease_seconds. Rows from a sender that would go over sender_daily_cap
+-- sends in the last 24 hours are left for later.
+CREATE OR REPLACE FUNCTION public.claim_email_queue(
+  max_emails INTEGER,
+  lease_seconds INTEGER,
+  sender_daily_cap INTEGER DEFAULT NULL
+)
+RETURNS SETOF public.email_logs
+LANGUAGE sql
+SET search_path = ''
+AS $$
+  WITH due AS (
+    SELECT l.id, l.from_address, l.send_after, l.created_at
+    FROM public.email_logs l
+    JOIN public.email_campaigns c ON c.id = l.campaign_id
+    WHERE l.status = 'pending'
+      AND l.send_after <= now()
+      AND (l.locked_until IS NULL OR l.locked_until < now())
+      AND c.status = 'sending'
+    ORDER BY l.send_after, l.created_at
+    LIMIT max_emails * 10
+    FOR UPDATE OF l SKIP LOCKED
+  ),
+  sender_usage AS (
+    SELECT from_address, COUNT(*) AS sent_today
+    FROM public.email_logs
+    WHERE sent_at > now() - INTERVAL '1 day'
+    GROUP BY from_address
+  ),
+  ranked AS (
+    SELECT
+      due.id,
+      due.send_after,
+      due.created_at,
+      COALESCE(u.sent_today, 0)
+        + ROW_NUMBER() OVER (PARTITION BY due.from_address ORDER BY due.send_after, due.created_at) AS sender_total
+    FROM due
+    LEFT JOIN sender_usage u ON u.from_address IS NOT DISTINCT FROM due.from_address
+  ),
+  picked AS (
+    SELECT id
+    FROM ranked
+    WHERE sender_daily_cap IS NULL OR sender_total <= sender_daily_cap
+    ORDER BY send_after, created_at
+    LIMIT max_emails
+  )
+  UPDATE public.email_logs l
+  SET locked_until = now() + make_interval(secs => lease_seconds)
+  FROM picked
+  WHERE l.id = picked.id
+  RETURNING l.*;
+$$;
+
+-- Drain the queue every minute, authenticated the same way as the scheduler
+SELECT cron.schedule(
+  'process-email-queue',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-email-queue',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
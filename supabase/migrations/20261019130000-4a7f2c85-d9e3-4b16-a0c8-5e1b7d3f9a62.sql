@@ -0,0 +1,88 @@
+-- Follow-up sequences. A campaign's own subject and template are step 1;
+-- campaign_steps holds the follow-ups, each sent delay_days (business days by
+-- default) after the previous step went out, in the same thread.
+CREATE TABLE public.campaign_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES public.email_campaigns(id) ON DELETE CASCADE,
+  step_number INTEGER NOT NULL CHECK (step_number >= 2),
+  -- NULL replies with "Re: " and the first email's subject
+  email_subject TEXT,
+  email_template TEXT NOT NULL,
+  delay_days INTEGER NOT NULL DEFAULT 3 CHECK (delay_days >= 1),
+  business_days BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(campaign_id, step_number)
+);
+
+ALTER TABLE public.campaign_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on campaign_steps" ON public.campaign_steps FOR ALL USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_campaign_steps_updated_at
+  BEFORE UPDATE ON public.campaign_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every step is queued when the campaign is sent. A follow-up's send_after
+-- stays NULL until the step before it has gone out. message_id and
+-- thread_references (the earlier steps' message ids, oldest first) thread the
+-- follow-ups under the first email; provider_message_id matches webhook events.
+ALTER TABLE public.email_logs
+  ADD COLUMN step_number INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN message_id TEXT,
+  ADD COLUMN thread_references TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN provider_message_id TEXT,
+  ALTER COLUMN send_after DROP NOT NULL;
+
+CREATE INDEX idx_email_logs_provider_message_id ON public.email_logs(provider_message_id);
+
+-- "cancelled" steps were never sent because the recipient left the sequence
+ALTER TABLE public.email_logs DROP CONSTRAINT email_logs_status_check;
+ALTER TABLE public.email_logs
+  ADD CONSTRAINT email_logs_status_check
+  CHECK (status IN ('pending', 'sent', 'delivered', 'opened', 'clicked', 'bounced', 'failed', 'cancelled'));
+
+ALTER TABLE public.campaign_recipients
+  ADD COLUMN stopped_reason TEXT CHECK (stopped_reason IN ('replied', 'bounced', 'unsubscribed')),
+  ADD COLUMN stopped_at TIMESTAMP WITH TIME ZONE;
+
+-- Unsubscribed recruiters are never emailed again, by any campaign
+ALTER TABLE public.recruiters
+  ADD COLUMN unsubscribed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.captured_emails
+  ADD COLUMN headers JSONB NOT NULL DEFAULT '{}';
+
+-- Takes a recruiter out of a campaign's sequence and cancels their unsent
+-- steps. Bounces and unsubscribes apply to every campaign: a bounce marks the
+-- address invalid and an unsubscribe marks the recruiter unsubscribed.
+CREATE OR REPLACE FUNCTION public.stop_sequence(p_campaign_id UUID, p_recruiter_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF p_reason NOT IN ('replied', 'bounced', 'unsubscribed') THEN
+    RAISE EXCEPTION 'Unknown stop reason: %', p_reason;
+  END IF;
+
+  IF p_reason = 'bounced' THEN
+    UPDATE public.recruiters SET email_status = 'invalid' WHERE id = p_recruiter_id;
+  ELSIF p_reason = 'unsubscribed' THEN
+    UPDATE public.recruiters SET unsubscribed_at = COALESCE(unsubscribed_at, now()) WHERE id = p_recruiter_id;
+  END IF;
+
+  UPDATE public.campaign_recipients
+  SET stopped_reason = p_reason, stopped_at = now()
+  WHERE recruiter_id = p_recruiter_id
+    AND stopped_reason IS NULL
+    AND (campaign_id = p_campaign_id OR p_reason <> 'replied');
+
+  UPDATE public.email_logs
+  SET status = 'cancelled', locked_until = NULL
+  WHERE recruiter_id = p_recruiter_id
+    AND status = 'pending'
+    AND (campaign_id = p_campaign_id OR p_reason <> 'replied');
+END;
+$$;
@@ -0,0 +1,6 @@
+-- Campaigns can be cancelled while sending or paused. Their unsent emails are
+-- cancelled with them; what already went out stays in email_logs.
+ALTER TABLE public.email_campaigns DROP CONSTRAINT email_campaigns_status_check;
+ALTER TABLE public.email_campaigns
+  ADD CONSTRAINT email_campaigns_status_check
+  CHECK (status IN ('draft', 'scheduled', 'sending', 'completed', 'paused', 'failed', 'cancelled'));
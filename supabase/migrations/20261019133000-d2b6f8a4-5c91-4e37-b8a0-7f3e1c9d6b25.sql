@@ -0,0 +1,8 @@
+-- A status marked by hand in the recruiter manager (e.g. after a bounce) is
+-- final: verification runs leave these recruiters alone.
+ALTER TABLE public.recruiters
+  ADD COLUMN email_status_manual BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.recruiters
+SET email_status_manual = true
+WHERE email_verification->'reasons' ? ('Marked ' || email_status || ' by hand');
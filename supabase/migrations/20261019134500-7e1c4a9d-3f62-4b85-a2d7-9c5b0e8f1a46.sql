@@ -0,0 +1,36 @@
+-- Cancelling a campaign also cancels the recipients still waiting for their
+-- first email, so they don't show as pending once nothing will be sent.
+ALTER TABLE public.campaign_recipients DROP CONSTRAINT campaign_recipients_status_check;
+ALTER TABLE public.campaign_recipients
+  ADD CONSTRAINT campaign_recipients_status_check
+  CHECK (status IN ('pending', 'sent', 'failed', 'skipped', 'cancelled'));
+
+-- Cancels a sending or paused campaign with its unsent emails and recipients in
+-- one transaction. Returns false when the campaign was neither.
+CREATE OR REPLACE FUNCTION public.cancel_campaign(p_campaign_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.email_campaigns
+  SET status = 'cancelled'
+  WHERE id = p_campaign_id
+    AND status IN ('sending', 'paused');
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.email_logs
+  SET status = 'cancelled', locked_until = NULL
+  WHERE campaign_id = p_campaign_id
+    AND status = 'pending';
+
+  UPDATE public.campaign_recipients
+  SET status = 'cancelled'
+  WHERE campaign_id = p_campaign_id
+    AND status = 'pending';
+
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,11 @@
+-- Provider responses are cut to the search's limits, and some providers query
+-- by company name rather than domain, so both go into the cache key. Entries
+-- cached without one can't say what they were cut to and are dropped.
+DELETE FROM public.provider_cache;
+
+ALTER TABLE public.provider_cache
+  ADD COLUMN query_key TEXT NOT NULL DEFAULT '';
+
+ALTER TABLE public.provider_cache DROP CONSTRAINT provider_cache_domain_provider_key;
+ALTER TABLE public.provider_cache
+  ADD CONSTRAINT provider_cache_domain_provider_query_key_key UNIQUE (domain, provider, query_key);
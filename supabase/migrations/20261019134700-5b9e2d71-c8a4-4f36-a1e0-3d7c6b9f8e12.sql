@@ -0,0 +1,17 @@
+-- Stored addresses keep the case they were entered or imported with, so
+-- duplicate checks compare them lowercased.
+CREATE INDEX idx_recruiters_company_lower_email ON public.recruiters (company_id, lower(email));
+
+-- Recruiters at any of p_company_ids whose address matches one of p_emails,
+-- which are expected lowercased
+CREATE OR REPLACE FUNCTION public.existing_recruiter_emails(p_company_ids UUID[], p_emails TEXT[])
+RETURNS TABLE (company_id UUID, email TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT r.company_id, lower(r.email)
+  FROM public.recruiters r
+  WHERE r.company_id = ANY(p_company_ids)
+    AND lower(r.email) = ANY(p_emails);
+$$;
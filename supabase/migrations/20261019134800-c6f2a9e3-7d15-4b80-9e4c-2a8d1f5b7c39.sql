@@ -0,0 +1,78 @@
+-- Runs of process-email-queue can overlap (a slow run, or a manual call next
+-- to the cron one), so the sending limits are enforced where rows are claimed
+-- rather than by each run on its own. Claims are serialised, and emails other
+-- runs hold a lease on count as sent.
+DROP FUNCTION public.claim_email_queue(INTEGER, INTEGER, INTEGER);
+
+-- Claims due rows of campaigns that are sending, leasing them for
+-- lease_seconds, without going over per_minute sends in the last minute,
+-- per_day in the last 24 hours, or sender_daily_cap from one sender in the
+-- last 24 hours.
+CREATE OR REPLACE FUNCTION public.claim_email_queue(
+  per_minute INTEGER,
+  per_day INTEGER,
+  lease_seconds INTEGER,
+  sender_daily_cap INTEGER DEFAULT NULL
+)
+RETURNS SETOF public.email_logs
+LANGUAGE sql
+SET search_path = ''
+AS $$
+  SELECT pg_advisory_xact_lock(hashtext('claim_email_queue'));
+
+  WITH usage AS (
+    SELECT
+      l.from_address,
+      -- Leased rows haven't been sent yet, so they count towards this minute
+      l.sent_at IS NULL OR l.sent_at > now() - INTERVAL '1 minute' AS this_minute
+    FROM public.email_logs l
+    WHERE l.sent_at > now() - INTERVAL '1 day'
+       OR (l.status = 'pending' AND l.locked_until > now())
+  ),
+  budget AS (
+    SELECT GREATEST(0, LEAST(
+      per_minute - COUNT(*) FILTER (WHERE this_minute),
+      per_day - COUNT(*)
+    )) AS emails
+    FROM usage
+  ),
+  sender_usage AS (
+    SELECT from_address, COUNT(*) AS used
+    FROM usage
+    GROUP BY from_address
+  ),
+  due AS (
+    SELECT l.id, l.from_address, l.send_after, l.created_at
+    FROM public.email_logs l
+    JOIN public.email_campaigns c ON c.id = l.campaign_id
+    WHERE l.status = 'pending'
+      AND l.send_after <= now()
+      AND (l.locked_until IS NULL OR l.locked_until < now())
+      AND c.status = 'sending'
+    ORDER BY l.send_after, l.created_at
+    LIMIT (SELECT emails FROM budget) * 10
+    FOR UPDATE OF l SKIP LOCKED
+  ),
+  ranked AS (
+    SELECT
+      due.id,
+      due.send_after,
+      due.created_at,
+      COALESCE(u.used, 0)
+        + ROW_NUMBER() OVER (PARTITION BY due.from_address ORDER BY due.send_after, due.created_at) AS sender_total
+    FROM due
+    LEFT JOIN sender_usage u ON u.from_address IS NOT DISTINCT FROM due.from_address
+  ),
+  picked AS (
+    SELECT id
+    FROM ranked
+    WHERE sender_daily_cap IS NULL OR sender_total <= sender_daily_cap
+    ORDER BY send_after, created_at
+    LIMIT (SELECT emails FROM budget)
+  )
+  UPDATE public.email_logs l
+  SET locked_until = now() + make_interval(secs => lease_seconds)
+  FROM picked
+  WHERE l.id = picked.id
+  RETURNING l.*;
+$$;
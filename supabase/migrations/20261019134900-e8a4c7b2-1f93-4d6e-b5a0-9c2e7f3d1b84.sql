@@ -0,0 +1,41 @@
+-- A bounce is as final as a status marked by hand, so it sets
+-- email_status_manual too and verification runs can't mark the address
+-- valid again.
+UPDATE public.recruiters r
+SET email_status_manual = true
+WHERE r.email_status = 'invalid'
+  AND EXISTS (
+    SELECT 1 FROM public.campaign_recipients cr
+    WHERE cr.recruiter_id = r.id AND cr.stopped_reason = 'bounced'
+  );
+
+-- As before, with bounced addresses flagged as final
+CREATE OR REPLACE FUNCTION public.stop_sequence(p_campaign_id UUID, p_recruiter_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF p_reason NOT IN ('replied', 'bounced', 'unsubscribed') THEN
+    RAISE EXCEPTION 'Unknown stop reason: %', p_reason;
+  END IF;
+
+  IF p_reason = 'bounced' THEN
+    UPDATE public.recruiters SET email_status = 'invalid', email_status_manual = true WHERE id = p_recruiter_id;
+  ELSIF p_reason = 'unsubscribed' THEN
+    UPDATE public.recruiters SET unsubscribed_at = COALESCE(unsubscribed_at, now()) WHERE id = p_recruiter_id;
+  END IF;
+
+  UPDATE public.campaign_recipients
+  SET stopped_reason = p_reason, stopped_at = now()
+  WHERE recruiter_id = p_recruiter_id
+    AND stopped_reason IS NULL
+    AND (campaign_id = p_campaign_id OR p_reason <> 'replied');
+
+  UPDATE public.email_logs
+  SET status = 'cancelled', locked_until = NULL
+  WHERE recruiter_id = p_recruiter_id
+    AND status = 'pending'
+    AND (campaign_id = p_campaign_id OR p_reason <> 'replied');
+END;
+$$;